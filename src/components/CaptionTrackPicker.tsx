@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { listYouTubeCaptions, type CaptionLanguage } from "@/lib/sourceContent";
+
+interface CaptionTrackPickerProps {
+  url: string;
+  value: CaptionLanguage | null;
+  // Must be stable, e.g. a state setter: a new function lists the tracks again
+  onChange: (caption: CaptionLanguage | null) => void;
+  summarizeInOriginal: boolean;
+  onSummarizeInOriginalChange: (checked: boolean) => void;
+  disabled?: boolean;
+}
+
+// Wait for the user to stop typing before listing a video's captions
+const LOOKUP_DELAY_MS = 500;
+
+const trackKey = (caption: CaptionLanguage) => `${caption.code}:${caption.isAuto ? 'auto' : 'manual'}`;
+
+const isEnglishCaption = (caption: CaptionLanguage) => caption.code.toLowerCase().split(/[-_]/)[0] === 'en';
+
+// English captions written by a person, then auto-generated English, then
+// whatever the video was captioned in by a person
+const defaultTrack = (tracks: CaptionLanguage[]): CaptionLanguage | null =>
+  tracks.find(t => isEnglishCaption(t) && !t.isAuto)
+  ?? tracks.find(t => isEnglishCaption(t))
+  ?? tracks.find(t => !t.isAuto)
+  ?? tracks[0]
+  ?? null;
+
+// Caption track choice for a YouTube link, listed once the URL is entered
+export const CaptionTrackPicker = ({
+  url,
+  value,
+  onChange,
+  summarizeInOriginal,
+  onSummarizeInOriginalChange,
+  disabled,
+}: CaptionTrackPickerProps) => {
+  const [tracks, setTracks] = useState<CaptionLanguage[]>([]);
+  const [isListing, setIsListing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTracks([]);
+    onChange(null);
+    setIsListing(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const listed = await listYouTubeCaptions(url);
+        if (cancelled) return;
+        setTracks(listed);
+        onChange(defaultTrack(listed));
+      } catch (error) {
+        console.error('Error listing caption tracks:', error);
+      } finally {
+        if (!cancelled) setIsListing(false);
+      }
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [url, onChange]);
+
+  if (isListing) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Looking up caption languages...
+      </div>
+    );
+  }
+
+  if (tracks.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Caption languages couldn't be listed for this video. English captions will be tried first.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Select
+        value={value ? trackKey(value) : undefined}
+        onValueChange={(key) => onChange(tracks.find(t => trackKey(t) === key) ?? null)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 w-[220px]" aria-label="Caption track">
+          <SelectValue placeholder="Caption track" />
+        </SelectTrigger>
+        <SelectContent>
+          {tracks.map((track) => (
+            <SelectItem key={trackKey(track)} value={trackKey(track)}>
+              {track.name}{track.isAuto && <span className="text-muted-foreground"> (auto-generated)</span>}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value && (
+        <Badge variant={value.isAuto ? "outline" : "secondary"} className="font-normal">
+          {value.isAuto ? "Auto-generated captions" : "Captions by the uploader"}
+        </Badge>
+      )}
+      {value && !isEnglishCaption(value) && (
+        <div className="flex items-center gap-2">
+          <Switch
+            id="summarize-in-original"
+            checked={summarizeInOriginal}
+            onCheckedChange={onSummarizeInOriginalChange}
+            disabled={disabled}
+          />
+          <Label htmlFor="summarize-in-original" className="font-normal">Summarize in {value.name}</Label>
+        </div>
+      )}
+    </div>
+  );
+};
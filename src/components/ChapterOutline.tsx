@@ -0,0 +1,72 @@
+import { ChevronRight, Play } from "lucide-react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { Summary } from "@/types/summary";
+import { formatTimestamp } from "@/lib/mediaEmbed";
+
+interface ChapterOutlineProps {
+  chapters: NonNullable<Summary['chapters']>;
+  // Seeks the embedded player; without it times are shown as plain labels
+  onJump?: (seconds: number) => void;
+}
+
+// Collapsible per-chapter summaries of a long video, each with its time range
+export const ChapterOutline = ({ chapters, onJump }: ChapterOutlineProps) => {
+  const timeLabel = (seconds: number, label: string) => onJump ? (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={(e) => {
+        // Inside the accordion trigger the click shouldn't also toggle the chapter
+        e.stopPropagation();
+        onJump(seconds);
+      }}
+      className="h-7 text-xs gap-1 tabular-nums shrink-0"
+      title="Play from here"
+      asChild
+    >
+      <span role="button" tabIndex={0}>
+        <Play className="w-3 h-3" />
+        {label}
+      </span>
+    </Button>
+  ) : (
+    <Badge variant="outline" className="font-normal text-xs tabular-nums shrink-0">{label}</Badge>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Chapters</h2>
+        <Badge variant="secondary" className="font-normal">
+          {chapters.source === 'video' ? "From the video" : "Detected topics"}
+        </Badge>
+      </div>
+      <Accordion type="multiple" className="rounded-lg border border-border/50 px-4">
+        {chapters.items.map((chapter, index) => (
+          <AccordionItem key={index} value={String(index)} className="last:border-b-0">
+            <AccordionTrigger className="gap-3 py-3 hover:no-underline text-left">
+              <div className="flex flex-1 items-center gap-3 min-w-0">
+                {timeLabel(chapter.start, `${formatTimestamp(chapter.start)}–${formatTimestamp(chapter.end)}`)}
+                <span className="truncate">{chapter.title}</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-3">
+              <p className="leading-relaxed text-foreground/90">{chapter.summary}</p>
+              <ul className="space-y-2">
+                {chapter.bulletPoints.map((bp, pointIndex) => (
+                  <li key={pointIndex} className="flex items-start gap-2">
+                    <ChevronRight className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                    <span className="flex-1 leading-relaxed">{bp.point}</span>
+                    {bp.timestamp !== undefined && timeLabel(bp.timestamp, formatTimestamp(bp.timestamp))}
+                  </li>
+                ))}
+              </ul>
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </div>
+  );
+};
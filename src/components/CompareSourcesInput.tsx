@@ -0,0 +1,151 @@
+import { FileText, Link as LinkIcon, Plus, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { SUPPORTED_FILE_TYPES, extractFileText } from "@/lib/fileText";
+import {
+  MAX_COMPARE_SOURCES,
+  MIN_COMPARE_SOURCES,
+  createCompareSource,
+  sourceColor,
+  sourceLabel,
+  type CompareSourceInput,
+  type CompareSourceType,
+} from "@/lib/comparison";
+
+interface CompareSourcesInputProps {
+  sources: CompareSourceInput[];
+  onSourcesChange: React.Dispatch<React.SetStateAction<CompareSourceInput[]>>;
+  disabled?: boolean;
+}
+
+export const CompareSourcesInput = ({ sources, onSourcesChange, disabled }: CompareSourcesInputProps) => {
+  const { toast } = useToast();
+
+  const updateSource = (id: string, changes: Partial<CompareSourceInput>) => {
+    onSourcesChange(prev => prev.map(source => source.id === id ? { ...source, ...changes } : source));
+  };
+
+  const handleFile = async (id: string, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    updateSource(id, { value: '', name: file.name, isProcessing: true });
+    try {
+      const { text } = await extractFileText(file);
+      updateSource(id, { value: text });
+    } catch (error) {
+      console.error('Error reading comparison file:', error);
+      updateSource(id, { value: '', name: undefined });
+      toast({
+        title: "Error processing file",
+        description: error instanceof Error ? error.message : 'Failed to process file',
+        variant: "destructive",
+      });
+    } finally {
+      updateSource(id, { isProcessing: false });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Add {MIN_COMPARE_SOURCES} to {MAX_COMPARE_SOURCES} sources on the same subject to see where they agree, disagree and what only one of them says.
+      </p>
+      {sources.map((source, index) => (
+        <div key={source.id} className="rounded-lg border border-border p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className={sourceColor(index)}>
+              Source {sourceLabel(index)}
+            </Badge>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={source.type}
+              onValueChange={(type) => type && updateSource(source.id, { type: type as CompareSourceType, value: '', name: undefined })}
+              disabled={disabled}
+            >
+              <ToggleGroupItem value="url" aria-label="URL" className="gap-1">
+                <LinkIcon className="w-3 h-3" />
+                URL
+              </ToggleGroupItem>
+              <ToggleGroupItem value="text" aria-label="Text" className="gap-1">
+                <FileText className="w-3 h-3" />
+                Text
+              </ToggleGroupItem>
+              <ToggleGroupItem value="file" aria-label="File" className="gap-1">
+                <Upload className="w-3 h-3" />
+                File
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <div className="flex-1" />
+            {sources.length > MIN_COMPARE_SOURCES && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Remove source"
+                onClick={() => onSourcesChange(prev => prev.filter(s => s.id !== source.id))}
+                disabled={disabled}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+
+          {source.type === 'url' && (
+            <Input
+              type="url"
+              placeholder="https://example.com/article"
+              value={source.value}
+              onChange={(e) => updateSource(source.id, { value: e.target.value })}
+              disabled={disabled}
+            />
+          )}
+          {source.type === 'text' && (
+            <Textarea
+              placeholder="Paste the content of this source..."
+              value={source.value}
+              onChange={(e) => updateSource(source.id, { value: e.target.value })}
+              className="min-h-[100px] resize-none"
+              disabled={disabled}
+            />
+          )}
+          {source.type === 'file' && (
+            <div className="space-y-2">
+              <Input
+                type="file"
+                accept={SUPPORTED_FILE_TYPES}
+                onChange={(e) => handleFile(source.id, e)}
+                disabled={disabled || source.isProcessing}
+                className="cursor-pointer"
+              />
+              {source.isProcessing ? (
+                <p className="text-sm text-primary animate-pulse">Processing {source.name}...</p>
+              ) : source.value && (
+                <p className="text-xs text-muted-foreground">
+                  {source.name} · {source.value.length.toLocaleString()} characters
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      {sources.length < MAX_COMPARE_SOURCES && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          onClick={() => onSourcesChange(prev => [...prev, createCompareSource()])}
+          disabled={disabled}
+        >
+          <Plus className="w-4 h-4" />
+          Add source
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Check, ChevronRight, Copy, ExternalLink, GitCompare, Sparkles, Split } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import type { Comparison, SourceAttribution } from "@/types/summary";
+import { describeSummaryOptions } from "@/lib/summaryOptions";
+import { sourceColor, sourceLabel } from "@/lib/comparison";
+
+interface ComparisonDisplayProps {
+  comparison: Comparison;
+  onBack: () => void;
+}
+
+const COLUMN_CLASSES: Record<number, string> = {
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-4',
+};
+
+const SourceBadge = ({ index, title }: { index: number; title?: string }) => (
+  <Badge variant="outline" className={`shrink-0 ${sourceColor(index)}`} title={title}>
+    {sourceLabel(index)}
+  </Badge>
+);
+
+const AttributedQuote = ({ attribution, title }: { attribution: SourceAttribution; title: string }) => (
+  <blockquote className="flex items-start gap-2 text-sm text-muted-foreground italic pl-4 border-l-2 border-muted-foreground/20">
+    <SourceBadge index={attribution.sourceIndex} title={title} />
+    <span className="line-clamp-2">"{attribution.reference}"</span>
+  </blockquote>
+);
+
+export const ComparisonDisplay = ({ comparison, onBack }: ComparisonDisplayProps) => {
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+  const { sources } = comparison;
+  const titleOf = (index: number) => sources[index]?.title ?? `Source ${sourceLabel(index)}`;
+
+  const handleCopy = async () => {
+    const label = (index: number) => `[${sourceLabel(index)}]`;
+    const text = [
+      comparison.overview,
+      `Sources:\n${sources.map((source, i) => `${label(i)} ${source.title}${source.url ? ` (${source.url})` : ''}`).join('\n')}`,
+      `Agreements:\n${comparison.agreements.map(a => `- ${a.point} ${a.attributions.map(at => label(at.sourceIndex)).join('')}`).join('\n')}`,
+      `Disagreements:\n${comparison.disagreements.map(d =>
+        `- ${d.topic}\n${d.positions.map(p => `  ${label(p.sourceIndex)} ${p.position}`).join('\n')}`
+      ).join('\n')}`,
+      `Unique points:\n${comparison.unique.map(u => `- ${label(u.sourceIndex)} ${u.point}`).join('\n')}`,
+    ].join('\n\n');
+
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+
+    toast({
+      title: "Copied to clipboard",
+      description: "Comparison copied successfully",
+    });
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex items-center gap-3 flex-wrap">
+        <Button variant="outline" size="sm" onClick={onBack} className="gap-2">
+          Back
+        </Button>
+        <div className="flex-1" />
+        <Button variant="outline" size="sm" onClick={handleCopy} className="gap-2">
+          {copied ? (
+            <>
+              <Check className="w-4 h-4" />
+              Copied
+            </>
+          ) : (
+            <>
+              <Copy className="w-4 h-4" />
+              Copy
+            </>
+          )}
+        </Button>
+      </div>
+
+      <Card className="p-8 bg-gradient-to-br from-card to-card/95 border-border/50 shadow-soft space-y-6">
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+              Comparison
+            </h2>
+            <div className="flex-1" />
+            {comparison.options && describeSummaryOptions(comparison.options).map((label) => (
+              <Badge key={label} variant="secondary" className="font-normal">
+                {label}
+              </Badge>
+            ))}
+          </div>
+          <p className="text-lg leading-relaxed text-foreground/90">{comparison.overview}</p>
+          <div className="flex flex-wrap gap-3 pt-1">
+            {sources.map((source, index) => (
+              <div key={index} className="flex items-center gap-2 text-sm min-w-0">
+                <SourceBadge index={index} />
+                {source.url ? (
+                  <a href={source.url} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">
+                    {source.title}
+                  </a>
+                ) : (
+                  <span className="truncate">{source.title}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="h-px bg-gradient-to-r from-transparent via-border to-transparent" />
+
+        <div className="space-y-4">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+            <GitCompare className="w-4 h-4" />
+            Where they agree
+          </h2>
+          {comparison.agreements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The sources have no points in common.</p>
+          ) : (
+            comparison.agreements.map((agreement, index) => (
+              <div key={index} className="space-y-2 pl-6 border-l-2 border-primary/30">
+                <div className="flex items-start gap-2">
+                  <p className="flex-1 text-base font-medium leading-relaxed">{agreement.point}</p>
+                  <div className="flex gap-1">
+                    {agreement.attributions.map((attribution) => (
+                      <SourceBadge key={attribution.sourceIndex} index={attribution.sourceIndex} title={titleOf(attribution.sourceIndex)} />
+                    ))}
+                  </div>
+                </div>
+                {agreement.attributions.map((attribution) => (
+                  <AttributedQuote key={attribution.sourceIndex} attribution={attribution} title={titleOf(attribution.sourceIndex)} />
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="h-px bg-gradient-to-r from-transparent via-border to-transparent" />
+
+        <div className="space-y-4">
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+            <Split className="w-4 h-4" />
+            Where they disagree
+          </h2>
+          {comparison.disagreements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No conflicting positions were found.</p>
+          ) : (
+            comparison.disagreements.map((disagreement, index) => (
+              <div key={index} className="space-y-3">
+                <p className="text-base font-medium">{disagreement.topic}</p>
+                <div className={`grid gap-3 md:grid-cols-2 ${COLUMN_CLASSES[disagreement.positions.length] ?? ''}`}>
+                  {disagreement.positions.map((position, i) => (
+                    <div key={i} className="rounded-lg border border-border/50 p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <SourceBadge index={position.sourceIndex} />
+                        <span className="text-xs text-muted-foreground truncate">{titleOf(position.sourceIndex)}</span>
+                      </div>
+                      <p className="text-sm leading-relaxed">{position.position}</p>
+                      <p className="text-xs text-muted-foreground italic line-clamp-3">"{position.reference}"</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </Card>
+
+      <div className={`grid gap-4 md:grid-cols-2 ${COLUMN_CLASSES[sources.length] ?? ''}`}>
+        {sources.map((source, sourceIndex) => {
+          const uniquePoints = comparison.unique.filter(u => u.sourceIndex === sourceIndex);
+          return (
+            <Card key={sourceIndex} className="p-6 space-y-4 border-border/50 shadow-soft min-w-0">
+              <div className="flex items-center gap-2 min-w-0">
+                <SourceBadge index={sourceIndex} />
+                <h3 className="font-semibold truncate" title={source.title}>{source.title}</h3>
+                {source.url && (
+                  <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground shrink-0">
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                )}
+              </div>
+              <p className="text-sm leading-relaxed text-foreground/90">{source.summary.summary}</p>
+
+              {uniquePoints.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="flex items-center gap-1 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                    <Sparkles className="w-3 h-3" />
+                    Only in this source
+                  </h4>
+                  {uniquePoints.map((item, i) => (
+                    <div key={i} className="rounded-lg bg-muted/50 p-3 space-y-1">
+                      <p className="text-sm font-medium">{item.point}</p>
+                      <p className="text-xs text-muted-foreground italic line-clamp-2">"{item.reference}"</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Key points</h4>
+                {source.summary.bulletPoints.map((bp, i) => (
+                  <div key={i} className="flex items-start gap-2">
+                    <ChevronRight className="w-3 h-3 mt-1 text-primary shrink-0" />
+                    <div className="space-y-1 min-w-0">
+                      <p className="text-sm">{bp.point}</p>
+                      <p className="text-xs text-muted-foreground italic line-clamp-2">"{bp.reference}"</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -3,54 +3,75 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { FileText, Link as LinkIcon, Sparkles, Upload, X, RefreshCw } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { FileText, Link as LinkIcon, Sparkles, Upload, X, RefreshCw, SlidersHorizontal, ChevronDown, Settings2, Columns2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import mammoth from 'mammoth';
-import * as XLSX from 'xlsx';
-import { supabase } from "@/integrations/supabase/client";
+import type { PromptTemplate, SummaryLength, SummaryOptions, SummaryStyle } from "@/types/summary";
+import { DEFAULT_SUMMARY_OPTIONS, LENGTH_OPTIONS, MAX_BULLET_COUNT, STYLE_OPTIONS } from "@/lib/summaryOptions";
+import { listPromptTemplates, templateUsesVariable } from "@/lib/promptTemplates";
+import { LANGUAGES } from "@/lib/languages";
+import { SUPPORTED_FILE_TYPES, extractFileText, getFileExtension, isImageFile, type PdfDetails } from "@/lib/fileText";
+import type { OcrReport } from "@/lib/ocr";
+import { MIN_COMPARE_SOURCES, createCompareSource, type CompareSourceInput } from "@/lib/comparison";
+import { CompareSourcesInput } from "@/components/CompareSourcesInput";
+import { TemplateManager } from "@/components/TemplateManager";
+import { CaptionTrackPicker } from "@/components/CaptionTrackPicker";
+import { OcrConfidence } from "@/components/OcrConfidence";
+import { PdfOutline } from "@/components/PdfOutline";
+import { isMediaUrl, isYouTubeUrl, type CaptionLanguage } from "@/lib/sourceContent";
+
+const DEFAULT_TEMPLATE_ID = 'default';
+// Page limits offered for multi-page articles; the edge function caps it at 10
+const PAGE_LIMIT_OPTIONS = [2, 3, 5, 10];
 
 interface ContentInputProps {
-  onSubmit: (content: string, type: 'url' | 'text' | 'file') => void;
+  onSubmit: (
+    content: string,
+    type: 'url' | 'text' | 'file',
+    meta: { fileName?: string; options: SummaryOptions; template?: PromptTemplate; language?: string; maxPages?: number; caption?: CaptionLanguage }
+  ) => void;
+  onCompare: (sources: CompareSourceInput[], meta: { options: SummaryOptions }) => void;
   isLoading: boolean;
 }
 
-export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
+type InputTab = 'url' | 'text' | 'file' | 'compare';
+
+export const ContentInput = ({ onSubmit, onCompare, isLoading }: ContentInputProps) => {
   const [urlInput, setUrlInput] = useState("");
   const [textInput, setTextInput] = useState("");
   const [fileContent, setFileContent] = useState("");
   const [fileName, setFileName] = useState("");
-  const [activeTab, setActiveTab] = useState<'url' | 'text' | 'file'>('url');
+  const [ocrReport, setOcrReport] = useState<OcrReport | null>(null);
+  const [pdfDetails, setPdfDetails] = useState<PdfDetails | null>(null);
+  const [ocrProgress, setOcrProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [activeTab, setActiveTab] = useState<InputTab>('url');
+  const [followPages, setFollowPages] = useState(false);
+  const [maxPages, setMaxPages] = useState('5');
+  const [captionTrack, setCaptionTrack] = useState<CaptionLanguage | null>(null);
+  const [summarizeInOriginal, setSummarizeInOriginal] = useState(false);
+  const [compareSources, setCompareSources] = useState<CompareSourceInput[]>(
+    () => Array.from({ length: MIN_COMPARE_SOURCES }, createCompareSource)
+  );
   const [isProcessingFile, setIsProcessingFile] = useState(false);
   const [fileError, setFileError] = useState<string | null>(null);
+  const [options, setOptions] = useState<SummaryOptions>(DEFAULT_SUMMARY_OPTIONS);
+  const [isOptionsOpen, setIsOptionsOpen] = useState(false);
+  const [templates, setTemplates] = useState(listPromptTemplates);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [templateLanguage, setTemplateLanguage] = useState("English");
+  const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  // Safely convert an ArrayBuffer to base64 without exceeding call stack (works for large PDFs)
-  const arrayBufferToBase64 = (buffer: ArrayBuffer): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      try {
-        const blob = new Blob([buffer], { type: 'application/pdf' });
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          try {
-            const result = reader.result as string;
-            const base64 = result.split(',')[1] ?? '';
-            resolve(base64);
-          } catch (e) {
-            reject(e);
-          }
-        };
-        reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
-        reader.readAsDataURL(blob);
-      } catch (e) {
-        reject(e);
-      }
-    });
-  };
-
   const clearFile = () => {
     setFileName("");
     setFileContent("");
+    setOcrReport(null);
+    setPdfDetails(null);
     setFileError(null);
     if (fileInputRef.current) {
       // Temporarily remove the onChange handler to prevent recursion
@@ -68,7 +89,7 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
   };
 
   const handleTabChange = (tab: string) => {
-    setActiveTab(tab as 'url' | 'text' | 'file');
+    setActiveTab(tab as InputTab);
     // Clear file when switching away from file tab
     if (tab !== 'file') {
       clearFile();
@@ -79,6 +100,7 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
     setUrlInput("");
     setTextInput("");
     clearFile();
+    setCompareSources(Array.from({ length: MIN_COMPARE_SOURCES }, createCompareSource));
     toast({
       title: "Inputs cleared",
       description: "All input fields have been reset",
@@ -96,68 +118,35 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
     // Clear previous file state only if we have a new file
     setFileName(file.name);
     setFileContent("");
+    setOcrReport(null);
+    setPdfDetails(null);
     setFileError(null);
     setIsProcessingFile(true);
-    const fileExtension = file.name.split('.').pop()?.toLowerCase();
 
     try {
-      console.log('Processing file:', file.name, 'type:', fileExtension);
-      
-      if (fileExtension === 'txt' || fileExtension === 'csv') {
-        const text = await file.text();
-        console.log('Text file content length:', text.length);
-        setFileContent(text);
-      } else if (fileExtension === 'pdf') {
-        console.log('Starting PDF processing with document parser...');
-        
+      if (getFileExtension(file.name) === 'pdf') {
         toast({
           title: "Processing PDF",
-          description: "Extracting text with OCR support. This may take a moment...",
-        });
-
-        // Convert file to base64 for edge function (safe for large files)
-        const arrayBuffer = await file.arrayBuffer();
-        const base64 = await arrayBufferToBase64(arrayBuffer);
-        
-        const { data, error } = await supabase.functions.invoke('parse-pdf', {
-          body: { 
-            pdfData: base64,
-            fileName: file.name
-          }
+          description: "Extracting text. Scanned pages are read with OCR, which may take a while...",
         });
-
-        if (error) throw new Error(error.message || 'Failed to parse PDF');
-        if (!data?.text) throw new Error('No text extracted from PDF');
-
-        console.log('PDF text extracted, length:', data.text.length);
-        setFileContent(data.text);
-      } else if (fileExtension === 'docx') {
-        console.log('Starting DOCX processing...');
-        const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        console.log('DOCX text extracted, length:', result.value.length);
-        setFileContent(result.value);
-      } else if (fileExtension === 'xlsm' || fileExtension === 'ods' || fileExtension === 'xlsx') {
-        console.log('Starting spreadsheet processing...');
-        const arrayBuffer = await file.arrayBuffer();
-        const workbook = XLSX.read(arrayBuffer);
-        let fullText = '';
-        
-        workbook.SheetNames.forEach(sheetName => {
-          const sheet = workbook.Sheets[sheetName];
-          const csv = XLSX.utils.sheet_to_csv(sheet);
-          fullText += `Sheet: ${sheetName}\n${csv}\n\n`;
+      } else if (isImageFile(file.name)) {
+        toast({
+          title: "Reading image",
+          description: "Recognizing text with OCR. This may take a moment...",
         });
-        
-        console.log('Spreadsheet text extracted, length:', fullText.length);
-        setFileContent(fullText);
-      } else {
-        throw new Error('Unsupported file format. Please upload TXT, CSV, PDF, DOCX, or spreadsheet files.');
       }
-      
+      const { text, ocr, pdf } = await extractFileText(file, {
+        onOcrProgress: (completed, total) => setOcrProgress({ completed, total }),
+      });
+      setFileContent(text);
+      setOcrReport(ocr ?? null);
+      setPdfDetails(pdf ?? null);
+
       toast({
         title: "File processed",
-        description: `${file.name} is ready to summarize`,
+        description: ocr
+          ? `${file.name} was read with OCR at ${ocr.confidence}% confidence and is ready to summarize`
+          : `${file.name} is ready to summarize`,
       });
     } catch (error) {
       console.error('Error reading file:', error);
@@ -172,17 +161,43 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
       });
     } finally {
       setIsProcessingFile(false);
+      setOcrProgress(null);
     }
   };
 
+  const selectedTemplate = templates.find(t => t.id === templateId);
+
+  const isProcessingCompareFile = compareSources.some(source => source.isProcessing);
+  const isSubmitDisabled = isLoading || isProcessingFile || (
+    activeTab === 'url' ? !urlInput.trim()
+      : activeTab === 'text' ? !textInput.trim()
+      : activeTab === 'file' ? !fileContent.trim()
+      : isProcessingCompareFile || compareSources.some(source => !source.value.trim())
+  );
+
   const handleSubmit = () => {
+    if (activeTab === 'compare') {
+      onCompare(compareSources, { options });
+      return;
+    }
+
     let content = '';
     if (activeTab === 'url') content = urlInput;
     else if (activeTab === 'text') content = textInput;
     else if (activeTab === 'file') content = fileContent;
     
     if (content.trim()) {
-      onSubmit(content, activeTab);
+      const caption = activeTab === 'url' && isYouTubeUrl(urlInput) ? captionTrack ?? undefined : undefined;
+      onSubmit(content, activeTab, {
+        fileName: activeTab === 'file' ? fileName : undefined,
+        options: caption && summarizeInOriginal ? { ...options, outputLanguage: caption.name } : options,
+        maxPages: activeTab === 'url' && followPages ? Number(maxPages) : undefined,
+        caption,
+        ...(selectedTemplate && {
+          template: { name: selectedTemplate.name, prompt: selectedTemplate.prompt, outputSchema: selectedTemplate.outputSchema },
+          language: templateLanguage,
+        }),
+      });
     }
   };
 
@@ -206,7 +221,7 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
       <div className="bg-card rounded-2xl shadow-lg border border-border overflow-hidden">
         <div className="flex items-center border-b bg-muted/30">
           <Tabs value={activeTab} onValueChange={handleTabChange} className="flex-1">
-            <TabsList className="w-full grid grid-cols-3 rounded-none bg-transparent border-0">
+            <TabsList className="w-full grid grid-cols-4 rounded-none bg-transparent border-0">
               <TabsTrigger value="url" className="gap-2 data-[state=active]:bg-background">
                 <LinkIcon className="w-4 h-4" />
                 URL
@@ -219,6 +234,10 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
                 <Upload className="w-4 h-4" />
                 File
               </TabsTrigger>
+              <TabsTrigger value="compare" className="gap-2 data-[state=active]:bg-background">
+                <Columns2 className="w-4 h-4" />
+                Compare
+              </TabsTrigger>
             </TabsList>
           </Tabs>
           <Button
@@ -244,6 +263,36 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
                 className="h-12 text-base"
                 disabled={isLoading}
               />
+              {isYouTubeUrl(urlInput) && (
+                <CaptionTrackPicker
+                  url={urlInput.trim()}
+                  value={captionTrack}
+                  onChange={setCaptionTrack}
+                  summarizeInOriginal={summarizeInOriginal}
+                  onSummarizeInOriginalChange={setSummarizeInOriginal}
+                  disabled={isLoading}
+                />
+              )}
+              {!isYouTubeUrl(urlInput) && !isMediaUrl(urlInput) && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Switch id="follow-pages" checked={followPages} onCheckedChange={setFollowPages} disabled={isLoading} />
+                    <Label htmlFor="follow-pages" className="font-normal">Follow multi-page articles</Label>
+                  </div>
+                  {followPages && (
+                    <Select value={maxPages} onValueChange={setMaxPages} disabled={isLoading}>
+                      <SelectTrigger className="h-8 w-[130px]" aria-label="Page limit">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAGE_LIMIT_OPTIONS.map((limit) => (
+                          <SelectItem key={limit} value={String(limit)}>Up to {limit} pages</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              )}
             </TabsContent>
             
             <TabsContent value="text" className="mt-0 space-y-4">
@@ -261,14 +310,16 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
                 <Input
                   ref={fileInputRef}
                   type="file"
-                  accept=".txt,.pdf,.csv,.docx,.xlsm,.ods,.xlsx"
+                  accept={SUPPORTED_FILE_TYPES}
                   onChange={handleFileUpload}
                   disabled={isLoading || isProcessingFile}
                   className="cursor-pointer"
                 />
                 {isProcessingFile && (
                   <div className="text-sm text-primary animate-pulse">
-                    Processing file...
+                    {ocrProgress
+                      ? `Running OCR on scanned pages (${ocrProgress.completed} of ${ocrProgress.total} done)...`
+                      : 'Processing file...'}
                   </div>
                 )}
                 {fileError && (
@@ -291,6 +342,8 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
                     </Button>
                   </div>
                 )}
+                {pdfDetails && !isProcessingFile && <PdfOutline details={pdfDetails} />}
+                {ocrReport && !isProcessingFile && <OcrConfidence report={ocrReport} />}
                 {fileContent && !isProcessingFile && (
                   <div className="p-4 bg-muted/50 rounded-lg max-h-[150px] overflow-y-auto">
                     <p className="text-sm text-muted-foreground line-clamp-6">
@@ -301,9 +354,155 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
               </div>
             </TabsContent>
 
+            <TabsContent value="compare" className="mt-0 space-y-4">
+              <CompareSourcesInput
+                sources={compareSources}
+                onSourcesChange={setCompareSources}
+                disabled={isLoading}
+              />
+            </TabsContent>
+
+            <Collapsible open={isOptionsOpen} onOpenChange={setIsOptionsOpen} className="mt-4 mb-4">
+              <CollapsibleTrigger className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
+                <SlidersHorizontal className="w-4 h-4" />
+                <span className="font-medium">Summary options</span>
+                <ChevronDown className={`w-4 h-4 transition-transform ${isOptionsOpen ? 'rotate-180' : ''}`} />
+                {selectedTemplate && activeTab !== 'compare' && <Badge variant="secondary">{selectedTemplate.name}</Badge>}
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-3 grid gap-4 sm:grid-cols-2">
+                {activeTab !== 'compare' && (
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="summary-template">Template</Label>
+                    <div className="flex gap-2">
+                      <Select value={templateId} onValueChange={setTemplateId} disabled={isLoading}>
+                        <SelectTrigger id="summary-template">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_TEMPLATE_ID}>Standard summary</SelectItem>
+                          {templates.map((template) => (
+                            <SelectItem key={template.id} value={template.id}>
+                              {template.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        className="gap-2 shrink-0"
+                        onClick={() => setIsTemplateManagerOpen(true)}
+                        disabled={isLoading}
+                      >
+                        <Settings2 className="w-4 h-4" />
+                        Manage
+                      </Button>
+                    </div>
+                    {selectedTemplate?.outputSchema && (
+                      <p className="text-xs text-muted-foreground">
+                        This template returns structured data, so length and number of points don't apply.
+                      </p>
+                    )}
+                  </div>
+                )}
+                {selectedTemplate && activeTab !== 'compare' && templateUsesVariable(selectedTemplate, 'language') && (
+                  <div className="space-y-2">
+                    <Label htmlFor="template-language">Output language</Label>
+                    <Select value={templateLanguage} onValueChange={setTemplateLanguage} disabled={isLoading}>
+                      <SelectTrigger id="template-language">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LANGUAGES.map((lang) => (
+                          <SelectItem key={lang.code} value={lang.name}>
+                            {lang.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="summary-length">Length</Label>
+                  <Select
+                    value={options.length}
+                    onValueChange={(length) => setOptions({ ...options, length: length as SummaryLength })}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger id="summary-length">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LENGTH_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="summary-style">Style</Label>
+                  <Select
+                    value={options.style}
+                    onValueChange={(style) => setOptions({ ...options, style: style as SummaryStyle })}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger id="summary-style">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STYLE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="summary-audience">Audience</Label>
+                  <Input
+                    id="summary-audience"
+                    placeholder="e.g. engineering managers"
+                    value={options.audience ?? ""}
+                    onChange={(e) => setOptions({ ...options, audience: e.target.value || undefined })}
+                    disabled={isLoading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="summary-bullet-count">Number of points</Label>
+                  <Input
+                    id="summary-bullet-count"
+                    type="number"
+                    min={1}
+                    max={MAX_BULLET_COUNT}
+                    placeholder="Auto"
+                    value={options.bulletCount ?? ""}
+                    onChange={(e) => {
+                      const count = parseInt(e.target.value, 10);
+                      setOptions({
+                        ...options,
+                        bulletCount: Number.isNaN(count) ? undefined : Math.min(Math.max(count, 1), MAX_BULLET_COUNT),
+                      });
+                    }}
+                    disabled={isLoading}
+                  />
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+
+            <TemplateManager
+              open={isTemplateManagerOpen}
+              onOpenChange={setIsTemplateManagerOpen}
+              onTemplatesChange={(next) => {
+                setTemplates(next);
+                if (!next.some(t => t.id === templateId)) setTemplateId(DEFAULT_TEMPLATE_ID);
+              }}
+            />
+
             <Button 
               onClick={handleSubmit}
-              disabled={isLoading || isProcessingFile || (activeTab === 'url' ? !urlInput.trim() : activeTab === 'text' ? !textInput.trim() : !fileContent.trim())}
+              disabled={isSubmitDisabled}
               size="lg"
               className="w-full h-12 text-base font-semibold bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary shadow-elegant transition-all"
             >
@@ -315,7 +514,7 @@ export const ContentInput = ({ onSubmit, isLoading }: ContentInputProps) => {
               ) : (
                 <>
                   <Sparkles className="w-5 h-5 mr-2" />
-                  Summarize Content
+                  {activeTab === 'compare' ? 'Compare Sources' : 'Summarize Content'}
                 </>
               )}
             </Button>
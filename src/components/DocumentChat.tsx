@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, MessageSquare, Send, Trash2, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { getExpandedContext } from "@/lib/sourceContext";
+import {
+  askDocument,
+  chatSessionKey,
+  getChatSession,
+  saveChatSession,
+  type ChatCitation,
+  type ChatMessage,
+} from "@/lib/documentChat";
+
+interface DocumentChatProps {
+  content: string;
+  url?: string;
+}
+
+interface ActiveCitation {
+  messageIndex: number;
+  citationIndex: number;
+}
+
+// Shows the passage around a citation, with the cited words marked
+const CitedPassage = ({ content, answer, citation }: { content: string; answer: string; citation: ChatCitation }) => {
+  const markRef = useRef<HTMLElement | null>(null);
+  const span = citation.start !== undefined && citation.end !== undefined
+    ? { start: citation.start, end: citation.end }
+    : undefined;
+  const { text, passage } = getExpandedContext(content, answer, citation.quote, undefined, span);
+  const quote = passage ?? citation.quote;
+  const quoteIndex = text.toLowerCase().indexOf(quote.toLowerCase());
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [quote]);
+
+  return (
+    <div className="max-h-64 overflow-y-auto whitespace-pre-wrap text-sm text-muted-foreground">
+      {quoteIndex === -1 ? text : (
+        <>
+          {text.slice(0, quoteIndex)}
+          <mark ref={markRef} className="bg-primary/20 dark:bg-primary/30 px-1 rounded font-semibold text-foreground">
+            {text.slice(quoteIndex, quoteIndex + quote.length)}
+          </mark>
+          {text.slice(quoteIndex + quote.length)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export const DocumentChat = ({ content, url }: DocumentChatProps) => {
+  const sessionKey = chatSessionKey(content, url);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => getChatSession(sessionKey));
+  const [question, setQuestion] = useState("");
+  const [isAsking, setIsAsking] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<ActiveCitation | null>(null);
+  const passageRef = useRef<HTMLDivElement | null>(null);
+  const { toast } = useToast();
+
+  // A different source was opened in the same view
+  useEffect(() => {
+    setMessages(getChatSession(sessionKey));
+    setActiveCitation(null);
+  }, [sessionKey]);
+
+  useEffect(() => {
+    if (activeCitation) {
+      passageRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [activeCitation]);
+
+  const updateMessages = (next: ChatMessage[]) => {
+    saveChatSession(sessionKey, next);
+    setMessages(next);
+  };
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!text || isAsking) return;
+
+    const history = messages;
+    const withQuestion: ChatMessage[] = [...history, { role: 'user', content: text }];
+    updateMessages(withQuestion);
+    setQuestion("");
+    setIsAsking(true);
+
+    try {
+      const answer = await askDocument(content, text, history);
+      updateMessages([...withQuestion, answer]);
+    } catch (error) {
+      console.error('Error asking document:', error);
+      // Put the question back so it can be asked again
+      updateMessages(history);
+      setQuestion(text);
+      toast({
+        title: "Could not answer",
+        description: error instanceof Error ? error.message : "Failed to answer question",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleAsk();
+    }
+  };
+
+  const renderAnswer = (message: ChatMessage, messageIndex: number) => {
+    const citations = message.citations ?? [];
+    return message.content.split(/(\[\d+\])/g).map((part, i) => {
+      const marker = part.match(/^\[(\d+)\]$/);
+      const citationIndex = marker ? Number(marker[1]) - 1 : -1;
+      if (!marker || !citations[citationIndex]) return part;
+
+      const isActive = activeCitation?.messageIndex === messageIndex && activeCitation.citationIndex === citationIndex;
+      return (
+        <button
+          key={i}
+          type="button"
+          onClick={() => setActiveCitation(isActive ? null : { messageIndex, citationIndex })}
+          className={`mx-0.5 rounded px-1 text-xs font-semibold align-super transition-colors ${
+            isActive ? 'bg-primary text-primary-foreground' : 'bg-primary/15 text-primary hover:bg-primary/25'
+          }`}
+          title={citations[citationIndex].quote}
+        >
+          {citationIndex + 1}
+        </button>
+      );
+    });
+  };
+
+  const activeMessage = activeCitation ? messages[activeCitation.messageIndex] : undefined;
+  const activeQuote = activeCitation ? activeMessage?.citations?.[activeCitation.citationIndex] : undefined;
+
+  return (
+    <Card className="p-6 bg-gradient-to-br from-card to-card/95 border-border/50 shadow-soft space-y-4">
+      <div className="flex items-center gap-2">
+        <MessageSquare className="w-4 h-4 text-muted-foreground" />
+        <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Ask the document
+        </h2>
+        <div className="flex-1" />
+        {messages.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs gap-1"
+            onClick={() => {
+              updateMessages([]);
+              setActiveCitation(null);
+            }}
+            disabled={isAsking}
+          >
+            <Trash2 className="w-3 h-3" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {messages.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Ask a follow-up question. Answers use only the source text and cite the passages they rely on.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {messages.map((message, index) => (
+            <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[85%] rounded-lg px-4 py-2 text-sm leading-relaxed whitespace-pre-wrap ${
+                  message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted/50'
+                }`}
+              >
+                {message.role === 'assistant' ? renderAnswer(message, index) : message.content}
+                {message.role === 'assistant' && message.answerable === false && (
+                  <p className="mt-2 text-xs text-muted-foreground italic">
+                    The source does not appear to cover this.
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+          {isAsking && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin text-primary" />
+              Reading the source...
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeMessage && activeQuote && (
+        <div ref={passageRef} className="rounded-lg border border-border/50 p-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Source passage [{activeCitation!.citationIndex + 1}]
+            </span>
+            <div className="flex-1" />
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setActiveCitation(null)} title="Close">
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+          <CitedPassage content={content} answer={activeMessage.content} citation={activeQuote} />
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <Textarea
+          placeholder="Ask a question about the source..."
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="min-h-[44px] resize-none"
+          rows={1}
+          disabled={isAsking}
+        />
+        <Button onClick={handleAsk} disabled={!question.trim() || isAsking} size="icon" title="Ask">
+          {isAsking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -4,9 +4,7 @@ import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Search } from "lucide-react";
-
-interface BulletPoint { point: string; reference: string }
-interface Summary { summary: string; bulletPoints: BulletPoint[] }
+import type { Summary } from "@/types/summary";
 
 interface GlobalSearchProps {
   summary: Summary | null;
@@ -16,6 +14,13 @@ interface GlobalSearchProps {
   onNavigate?: (section: 'summary' | 'bullets' | 'content', bulletIndex?: number, query?: string) => void;
 }
 
+// A match with the text around it, rendered as text rather than HTML
+interface Snippet {
+  prefix: string;
+  match: string;
+  suffix: string;
+}
+
 export function GlobalSearch({ summary, translatedSummary, originalContent, originalUrl, onNavigate }: GlobalSearchProps) {
   const [open, setOpen] = useState(false);
   const [query, setQuery] = useState("");
@@ -67,14 +72,14 @@ export function GlobalSearch({ summary, translatedSummary, originalContent, orig
 
   const results = useMemo(() => {
     const q = query.trim();
-    if (!q) return [] as { title: string; section: 'summary' | 'bullets' | 'content'; bulletIndex?: number; matches: { snippet: string }[] }[];
+    if (!q) return [] as { title: string; section: 'summary' | 'bullets' | 'content'; bulletIndex?: number; matches: Snippet[] }[];
     
     // Escape special regex characters and add Unicode flag for better international support
     const escapedQuery = q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
     const regex = new RegExp(escapedQuery, "giu"); // Added 'u' flag for Unicode support
 
     return sections.map((sec) => {
-      const matches: { snippet: string }[] = [];
+      const matches: Snippet[] = [];
       const window = 60;
       let m;
       
@@ -87,8 +92,7 @@ export function GlobalSearch({ summary, translatedSummary, originalContent, orig
         const prefix = sec.text.slice(start, m.index);
         const match = sec.text.slice(m.index, m.index + m[0].length);
         const suffix = sec.text.slice(m.index + m[0].length, end);
-        const snippet = `${prefix}<mark class=\"bg-primary/20 text-primary rounded px-0.5\">${match}</mark>${suffix}`;
-        matches.push({ snippet });
+        matches.push({ prefix, match, suffix });
         
         // Prevent infinite loop
         if (m.index === regex.lastIndex) {
@@ -144,11 +148,11 @@ export function GlobalSearch({ summary, translatedSummary, originalContent, orig
                     <div className="text-sm font-medium text-muted-foreground">{res.title} ({res.matches.length})</div>
                     <div className="space-y-2">
                       {res.matches.map((m, i) => (
-                        <p
-                          key={i}
-                          className="text-sm leading-relaxed"
-                          dangerouslySetInnerHTML={{ __html: m.snippet }}
-                        />
+                        <p key={i} className="text-sm leading-relaxed">
+                          {m.prefix}
+                          <mark className="bg-primary/20 text-primary rounded px-0.5">{m.match}</mark>
+                          {m.suffix}
+                        </p>
                       ))}
                     </div>
                   </div>
@@ -0,0 +1,380 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, KeyRound, Loader2, Lock, RotateCw, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deleteLocalEntry,
+  exportLocalHistory,
+  importLocalHistory,
+  isLocalHistorySetUp,
+  isLocalHistoryUnlocked,
+  listLocalEntries,
+  lockLocalHistory,
+  setupLocalHistory,
+  unlockLocalHistory,
+  wipeLocalHistory,
+} from "@/lib/localHistory";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const LocalHistoryPanel = () => {
+  const [status, setStatus] = useState<'loading' | 'setup' | 'locked' | 'unlocked'>('loading');
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+  const [importFile, setImportFile] = useState<string | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isLocalHistoryUnlocked()) {
+      setStatus('unlocked');
+      return;
+    }
+    isLocalHistorySetUp()
+      .then((isSetUp) => setStatus(isSetUp ? 'locked' : 'setup'))
+      .catch(() => setStatus('setup'));
+  }, []);
+
+  const { data: entries = [], isLoading } = useQuery({
+    queryKey: ['local-history'],
+    queryFn: listLocalEntries,
+    enabled: status === 'unlocked',
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['local-history'] });
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const handleSetup = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast({ title: "Passphrase too short", description: `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`, variant: "destructive" });
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      toast({ title: "Passphrases do not match", description: "Please type the same passphrase twice.", variant: "destructive" });
+      return;
+    }
+    setIsWorking(true);
+    try {
+      await setupLocalHistory(passphrase);
+      setStatus('unlocked');
+      toast({ title: "Local history created", description: "New summaries will be saved encrypted in this browser" });
+    } catch (error) {
+      showError("Could not create local history", error);
+    } finally {
+      setPassphrase("");
+      setConfirmPassphrase("");
+      setIsWorking(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    setIsWorking(true);
+    try {
+      if (await unlockLocalHistory(passphrase)) {
+        setStatus('unlocked');
+        refresh();
+      } else {
+        toast({ title: "Wrong passphrase", description: "Local history is still locked.", variant: "destructive" });
+      }
+    } catch (error) {
+      showError("Could not unlock local history", error);
+    } finally {
+      setPassphrase("");
+      setIsWorking(false);
+    }
+  };
+
+  const handleLock = () => {
+    lockLocalHistory();
+    queryClient.removeQueries({ queryKey: ['local-history'] });
+    setStatus('locked');
+  };
+
+  const handleExport = async () => {
+    try {
+      const json = await exportLocalHistory();
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `summary-history-${format(new Date(), 'yyyy-MM-dd')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      showError("Export failed", error);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setImportFile(await file.text());
+  };
+
+  const handleImport = async () => {
+    if (!importFile) return;
+    setIsWorking(true);
+    try {
+      const { imported, skipped } = await importLocalHistory(importFile, importPassphrase);
+      toast({
+        title: "Import complete",
+        description: skipped > 0
+          ? `${imported} summaries imported, ${skipped} invalid entries skipped`
+          : `${imported} summaries imported`,
+      });
+      setImportFile(null);
+      refresh();
+    } catch (error) {
+      showError("Import failed", error);
+    } finally {
+      setImportPassphrase("");
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteLocalEntry(id);
+      refresh();
+    } catch (error) {
+      showError("Delete failed", error);
+    }
+  };
+
+  const handleWipe = async () => {
+    try {
+      await wipeLocalHistory();
+      queryClient.removeQueries({ queryKey: ['local-history'] });
+      setStatus('setup');
+      toast({ title: "Local history wiped", description: "All saved summaries were removed from this browser" });
+    } catch (error) {
+      showError("Wipe failed", error);
+    }
+  };
+
+  const wipeButton = (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="gap-2 hover:bg-destructive/10 hover:text-destructive">
+          <Trash2 className="w-4 h-4" />
+          Wipe all
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Wipe all local history?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Every summary saved in this browser and the passphrase setup are permanently deleted. Export first if you want to keep a copy.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleWipe}>Wipe all</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (status === 'setup') {
+    return (
+      <Card className="p-6 space-y-4">
+        <div className="space-y-1">
+          <h2 className="font-semibold flex items-center gap-2">
+            <KeyRound className="w-4 h-4 text-primary" />
+            Choose a passphrase
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Your local history is encrypted with this passphrase. It cannot be recovered if you forget it.
+          </p>
+        </div>
+        <Input
+          type="password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        <Input
+          type="password"
+          placeholder="Confirm passphrase"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSetup()}
+        />
+        <Button onClick={handleSetup} disabled={isWorking || !passphrase}>
+          Create encrypted history
+        </Button>
+      </Card>
+    );
+  }
+
+  if (status === 'locked') {
+    return (
+      <Card className="p-6 space-y-4">
+        <div className="space-y-1">
+          <h2 className="font-semibold flex items-center gap-2">
+            <Lock className="w-4 h-4 text-primary" />
+            Local history is locked
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Enter your passphrase to view and save summaries in this browser.
+          </p>
+        </div>
+        <Input
+          type="password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+        />
+        <div className="flex items-center gap-2">
+          <Button onClick={handleUnlock} disabled={isWorking || !passphrase}>
+            Unlock
+          </Button>
+          <div className="flex-1" />
+          {wipeButton}
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" className="gap-2" onClick={handleExport} disabled={entries.length === 0}>
+          <Download className="w-4 h-4" />
+          Export
+        </Button>
+        <Button size="sm" variant="outline" className="gap-2" onClick={() => importInputRef.current?.click()}>
+          <Upload className="w-4 h-4" />
+          Import
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleImportFile}
+        />
+        <Button size="sm" variant="ghost" className="gap-2" onClick={handleLock}>
+          <Lock className="w-4 h-4" />
+          Lock
+        </Button>
+        <div className="flex-1" />
+        {wipeButton}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-center text-muted-foreground py-12">
+          No summaries saved in this browser yet.
+        </p>
+      ) : (
+        entries.map((entry) => (
+          <Card key={entry.id} className="p-4 space-y-3">
+            <div className="space-y-1">
+              <h2 className="font-semibold truncate">{entry.title}</h2>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(entry.createdAt), 'PPp')}
+                {entry.originalUrl && ` · ${entry.originalUrl}`}
+              </p>
+              <p className="text-sm text-muted-foreground line-clamp-2">{entry.summary.summary}</p>
+              {Object.keys(entry.translations).length > 0 && (
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {Object.keys(entry.translations).map((code) => (
+                    <Badge key={code} variant="secondary" className="uppercase">{code}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" onClick={() => navigate('/', { state: { openHistory: { id: entry.id, storage: 'local' } } })}>
+                Open
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                onClick={() => navigate('/', { state: { rerunHistory: { id: entry.id, storage: 'local' } } })}
+              >
+                <RotateCw className="w-4 h-4" />
+                Re-run
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="gap-2 hover:bg-destructive/10 hover:text-destructive"
+                onClick={() => handleDelete(entry.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </Button>
+            </div>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={importFile !== null} onOpenChange={(open) => !open && setImportFile(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import history</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Enter the passphrase that was active when this file was exported.
+          </p>
+          <Input
+            type="password"
+            placeholder="Export passphrase"
+            value={importPassphrase}
+            onChange={(e) => setImportPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleImport()}
+          />
+          <DialogFooter>
+            <Button onClick={handleImport} disabled={isWorking || !importPassphrase}>
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
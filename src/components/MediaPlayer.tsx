@@ -0,0 +1,51 @@
+import { forwardRef, useImperativeHandle, useRef, useState } from "react";
+import { seekMessages, type MediaEmbed } from "@/lib/mediaEmbed";
+
+export interface MediaPlayerHandle {
+  seekTo: (seconds: number) => void;
+}
+
+interface MediaPlayerProps {
+  embed: MediaEmbed;
+  title?: string;
+}
+
+export const MediaPlayer = forwardRef<MediaPlayerHandle, MediaPlayerProps>(({ embed, title }, ref) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Set when a jump is requested before the player has loaded
+  const [startAt, setStartAt] = useState<number | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds) => {
+      const player = iframeRef.current?.contentWindow;
+      if (!isLoaded || !player) {
+        setStartAt(seconds);
+        return;
+      }
+      seekMessages(embed, seconds).forEach(message => player.postMessage(message, embed.origin));
+    },
+  }), [embed, isLoaded]);
+
+  const src = startAt === null
+    ? embed.src
+    : embed.provider === 'youtube'
+      ? `${embed.src}&start=${Math.floor(startAt)}&autoplay=1`
+      : `${embed.src}${embed.src.includes('?') ? '&' : '?'}autoplay=1#t=${Math.floor(startAt)}s`;
+
+  return (
+    <div className="relative w-full overflow-hidden rounded-lg border border-border/50 bg-black aspect-video">
+      <iframe
+        ref={iframeRef}
+        src={src}
+        title={title ?? "Video player"}
+        className="absolute inset-0 h-full w-full"
+        allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+        allowFullScreen
+        onLoad={() => setIsLoaded(true)}
+      />
+    </div>
+  );
+});
+
+MediaPlayer.displayName = "MediaPlayer";
@@ -0,0 +1,54 @@
+import { ScanText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { LOW_OCR_CONFIDENCE, type OcrReport } from "@/lib/ocr";
+
+interface OcrConfidenceProps {
+  report: OcrReport;
+}
+
+// How sure OCR was of the text it read, overall and for each page
+export const OcrConfidence = ({ report }: OcrConfidenceProps) => {
+  const lowPages = report.pages.filter(page => page.confidence < LOW_OCR_CONFIDENCE);
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg border border-border/50">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <ScanText className="w-4 h-4 text-muted-foreground" />
+        <span className="text-muted-foreground">Read with OCR</span>
+        <Badge variant={report.confidence < LOW_OCR_CONFIDENCE ? "destructive" : "secondary"} className="font-normal">
+          {report.confidence}% confidence
+        </Badge>
+        {report.skippedPages > 0 && (
+          <Badge variant="outline" className="font-normal">
+            {report.skippedPages} more pages not read
+          </Badge>
+        )}
+      </div>
+      {report.pages.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          {report.pages.map((page) => (
+            <Tooltip key={page.page}>
+              <TooltipTrigger asChild>
+                <Badge
+                  variant={page.confidence < LOW_OCR_CONFIDENCE ? "destructive" : "outline"}
+                  className="font-normal text-xs tabular-nums"
+                >
+                  p. {page.page}: {page.confidence}%
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent>
+                {page.characters === 0 ? 'No text recognized' : `${page.characters} characters recognized`}
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      )}
+      {lowPages.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Some words may have been misread. Check points from low-confidence pages against the original.
+        </p>
+      )}
+    </div>
+  );
+};
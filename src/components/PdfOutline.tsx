@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { BookMarked, ChevronDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { PdfDetails } from "@/lib/fileText";
+
+interface PdfOutlineProps {
+  details: PdfDetails;
+}
+
+// A PDF's title, author and bookmarks, shown once it has been parsed
+export const PdfOutline = ({ details }: PdfOutlineProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { metadata, outline } = details;
+  const byline = [metadata.author, metadata.createdAt].filter(Boolean).join(' · ');
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg border border-border/50">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{metadata.title ?? 'Untitled PDF'}</span>
+        {byline && <span className="text-muted-foreground">{byline}</span>}
+        <Badge variant="secondary" className="font-normal">
+          {details.pages} {details.pages === 1 ? 'page' : 'pages'}
+        </Badge>
+      </div>
+      {metadata.subject && <p className="text-sm text-muted-foreground">{metadata.subject}</p>}
+      {outline.length > 0 && (
+        <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+          <CollapsibleTrigger className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
+            <BookMarked className="w-4 h-4" />
+            {outline.length} bookmarks
+            <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ol className="mt-2 max-h-[200px] overflow-y-auto space-y-1 text-sm">
+              {outline.map((item, index) => (
+                <li
+                  key={index}
+                  className="flex items-baseline justify-between gap-3"
+                  style={{ paddingLeft: `${Math.min(item.level, 4)}rem` }}
+                >
+                  <span className={item.level === 0 ? 'font-medium' : 'text-muted-foreground'}>{item.title}</span>
+                  {item.page !== null && (
+                    <span className="text-xs text-muted-foreground tabular-nums shrink-0">p. {item.page}</span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+};
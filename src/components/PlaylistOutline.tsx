@@ -0,0 +1,80 @@
+import { AlertCircle, ChevronRight, ExternalLink } from "lucide-react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { isHttpUrl } from "@/lib/summarySchema";
+import type { Summary } from "@/types/summary";
+
+interface PlaylistOutlineProps {
+  playlist: NonNullable<Summary['playlist']>;
+}
+
+// The summary of every video in a playlist roll-up, each linking to the video
+export const PlaylistOutline = ({ playlist }: PlaylistOutlineProps) => {
+  const failed = playlist.videos.filter(video => video.error).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Videos</h2>
+        <Badge variant="secondary" className="font-normal">
+          {playlist.videos.length} videos
+        </Badge>
+        {failed > 0 && (
+          <Badge variant="outline" className="font-normal">{failed} not summarized</Badge>
+        )}
+        {isHttpUrl(playlist.url) && (
+          <a
+            href={playlist.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground hover:underline min-w-0"
+          >
+            <span className="truncate">{playlist.title}</span>
+            <ExternalLink className="w-3 h-3 shrink-0" />
+          </a>
+        )}
+      </div>
+      <Accordion type="multiple" className="rounded-lg border border-border/50 px-4">
+        {playlist.videos.map((video, index) => (
+          <AccordionItem key={index} value={String(index)} id={`playlist-video-${index}`} className="last:border-b-0">
+            <AccordionTrigger className="gap-3 py-3 hover:no-underline text-left">
+              <div className="flex flex-1 items-center gap-3 min-w-0">
+                <Badge variant="outline" className="font-normal text-xs tabular-nums shrink-0">{index + 1}</Badge>
+                <span className="truncate">{video.title}</span>
+                {video.error && <AlertCircle className="w-4 h-4 text-destructive shrink-0" />}
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-3">
+              {isHttpUrl(video.url) && (
+                <a
+                  href={video.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                >
+                  Watch on YouTube
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+              {video.error ? (
+                <p className="text-sm text-destructive">This video could not be summarized: {video.error}</p>
+              ) : (
+                <>
+                  <p className="leading-relaxed text-foreground/90">{video.summary}</p>
+                  <ul className="space-y-2">
+                    {video.bulletPoints.map((bp, pointIndex) => (
+                      <li key={pointIndex} className="flex items-start gap-2">
+                        <ChevronRight className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                        <span className="flex-1 leading-relaxed">{bp.point}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </div>
+  );
+};
@@ -18,6 +18,9 @@ export const PrivacyNotice = () => {
           <p>
             <strong className="text-foreground">Zero Data Retention:</strong> Your content is processed in real-time using secure, encrypted connections and is never stored on our servers. All data exists only in your browser during your active session and is automatically purged when you close or refresh the page.
           </p>
+          <p>
+            <strong className="text-foreground">Optional History:</strong> Summary history is off by default. If you turn it on from the History page, you can keep it encrypted with your own passphrase in this browser only, so it never leaves your device, or in a private cloud store linked to this browser. Either can be deleted at any time.
+          </p>
           
           <Collapsible open={isOpen} onOpenChange={setIsOpen}>
             <CollapsibleTrigger className="flex items-center gap-2 text-primary hover:text-primary/80 transition-colors">
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Check, Copy, Link2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { EXPIRY_OPTIONS, MIN_SHARE_PASSWORD_LENGTH, createShare, shareUrl, type CreateShareInput } from "@/lib/sharing";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Everything except the sharer's choices made in the dialog
+  share: Omit<CreateShareInput, 'content' | 'expiresInDays' | 'password'>;
+  content: string;
+}
+
+export const ShareDialog = ({ open, onOpenChange, share, content }: ShareDialogProps) => {
+  const [expiry, setExpiry] = useState('never');
+  const [password, setPassword] = useState("");
+  const [includeContent, setIncludeContent] = useState(false);
+  const [includeTranslation, setIncludeTranslation] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [created, setCreated] = useState<{ url: string; expiresAt: string | null } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  // Every opening starts a new link rather than showing the previous one
+  useEffect(() => {
+    if (open) {
+      setCreated(null);
+      setCopied(false);
+    }
+  }, [open]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const { id, expiresAt } = await createShare({
+        ...share,
+        translation: includeTranslation ? share.translation : undefined,
+        content: includeContent ? content : undefined,
+        expiresInDays: EXPIRY_OPTIONS.find(option => option.value === expiry)?.days,
+        password: password || undefined,
+      });
+      setCreated({ url: shareUrl(id), expiresAt });
+      setPassword("");
+    } catch (error) {
+      console.error('Share error:', error);
+      toast({
+        title: "Could not create link",
+        description: error instanceof Error ? error.message : "Failed to create share link",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share summary</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view a read-only copy of this summary.
+          </DialogDescription>
+        </DialogHeader>
+
+        {created ? (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input value={created.url} readOnly onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {created.expiresAt
+                ? `This link expires on ${format(new Date(created.expiresAt), 'PPP p')}.`
+                : 'This link does not expire.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-expiry">Expiry</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password (optional)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                placeholder={`At least ${MIN_SHARE_PASSWORD_LENGTH} characters`}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+            {share.translation && (
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="share-translation" className="font-normal">
+                  Include the {share.translation.language} translation
+                </Label>
+                <Switch id="share-translation" checked={includeTranslation} onCheckedChange={setIncludeTranslation} />
+              </div>
+            )}
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="share-content" className="font-normal">Include the original content</Label>
+                <p className="text-xs text-muted-foreground">
+                  Off by default: only the summary is stored. Turn this on to let viewers read the full source text.
+                </p>
+              </div>
+              <Switch id="share-content" checked={includeContent} onCheckedChange={setIncludeContent} disabled={!content} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {created ? (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <Button
+              onClick={handleCreate}
+              disabled={isCreating || (password.length > 0 && password.length < MIN_SHARE_PASSWORD_LENGTH)}
+              className="gap-2"
+            >
+              {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+              Create link
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ChevronRight, FileText, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import type { BulletPoint, SummaryChunk } from "@/types/summary";
+import { resolveReferenceSpan, type SourceSpan } from "@/lib/sourceContext";
+
+interface SourceViewerProps {
+  content: string;
+  // Points as generated; their references and offsets point into `content`
+  bulletPoints: BulletPoint[];
+  // Text shown for each point, e.g. a translation of `bulletPoints`
+  displayPoints: string[];
+  chunks?: SummaryChunk[];
+  // Search term to highlight and scroll to, from GlobalSearch
+  query?: string;
+  onClose: () => void;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  // Bullet points whose reference covers this segment
+  bullets: number[];
+  isMatch: boolean;
+}
+
+// Search hits beyond this are not highlighted to keep the DOM small
+const MAX_QUERY_MATCHES = 200;
+
+const findMatches = (content: string, query: string): SourceSpan[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const haystack = content.toLowerCase();
+  const matches: SourceSpan[] = [];
+  let index = haystack.indexOf(needle);
+  while (index !== -1 && matches.length < MAX_QUERY_MATCHES) {
+    matches.push({ start: index, end: index + needle.length });
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return matches;
+};
+
+// Cuts the content at every span boundary so each piece can be styled by the
+// set of bullets (and search hits) that cover it
+const buildSegments = (content: string, spans: (SourceSpan | null)[], matches: SourceSpan[]): Segment[] => {
+  const boundaries = new Set([0, content.length]);
+  spans.forEach(span => span && boundaries.add(span.start).add(span.end));
+  matches.forEach(match => boundaries.add(match.start).add(match.end));
+  const points = [...boundaries].sort((a, b) => a - b);
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    if (start === end) continue;
+    segments.push({
+      start,
+      end,
+      bullets: spans.flatMap((span, index) => span && span.start <= start && end <= span.end ? [index] : []),
+      isMatch: matches.some(match => match.start <= start && end <= match.end),
+    });
+  }
+  return segments;
+};
+
+// Maps a DOM selection point inside the source text back to a character offset
+const selectionOffset = (node: Node | null, offset: number): number | null => {
+  const element = node?.nodeType === Node.TEXT_NODE ? node.parentElement : (node as Element | null);
+  const segment = element?.closest<HTMLElement>('[data-start]');
+  if (!segment) return null;
+  return Number(segment.dataset.start) + (node?.nodeType === Node.TEXT_NODE ? offset : 0);
+};
+
+export const SourceViewer = ({
+  content,
+  bulletPoints,
+  displayPoints,
+  chunks,
+  query,
+  onClose,
+}: SourceViewerProps) => {
+  const [hoveredBullet, setHoveredBullet] = useState<number | null>(null);
+  const [selectedBullet, setSelectedBullet] = useState<number | null>(null);
+  const [selection, setSelection] = useState<SourceSpan | null>(null);
+  const sourceRef = useRef<HTMLDivElement | null>(null);
+
+  const spans = useMemo(
+    () => bulletPoints.map(bp =>
+      resolveReferenceSpan(content, bp, bp.chunkIndex !== undefined ? chunks?.[bp.chunkIndex] : undefined)
+    ),
+    [content, bulletPoints, chunks]
+  );
+  const matches = useMemo(() => findMatches(content, query ?? ''), [content, query]);
+  const segments = useMemo(() => buildSegments(content, spans, matches), [content, spans, matches]);
+
+  const activeBullet = hoveredBullet ?? selectedBullet;
+  const citingBullets = selection
+    ? spans.flatMap((span, index) => span && span.start < selection.end && selection.start < span.end ? [index] : [])
+    : [];
+
+  const scrollToOffset = (offset: number) => {
+    const target = sourceRef.current?.querySelector<HTMLElement>(`[data-start="${offset}"]`);
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  useEffect(() => {
+    if (activeBullet === null) return;
+    const span = spans[activeBullet];
+    if (span) scrollToOffset(span.start);
+  }, [activeBullet, spans]);
+
+  useEffect(() => {
+    if (matches.length === 0) return;
+    // Give the panel time to lay out when it was just opened
+    const timer = setTimeout(() => scrollToOffset(matches[0].start), 100);
+    return () => clearTimeout(timer);
+  }, [matches]);
+
+  const handleSourceMouseUp = () => {
+    const current = window.getSelection();
+    if (!current || current.isCollapsed || !sourceRef.current?.contains(current.anchorNode)) {
+      setSelection(null);
+      return;
+    }
+    const anchor = selectionOffset(current.anchorNode, current.anchorOffset);
+    const focus = selectionOffset(current.focusNode, current.focusOffset);
+    if (anchor === null || focus === null) {
+      setSelection(null);
+      return;
+    }
+    setSelection({ start: Math.min(anchor, focus), end: Math.max(anchor, focus) });
+  };
+
+  const segmentClass = (segment: Segment) => {
+    if (activeBullet !== null && segment.bullets.includes(activeBullet)) {
+      return 'bg-primary/30 dark:bg-primary/40 rounded-sm text-foreground';
+    }
+    if (segment.isMatch) return 'bg-primary/20 text-primary rounded-sm';
+    if (segment.bullets.length > 0) return 'bg-primary/10 dark:bg-primary/15 rounded-sm';
+    return undefined;
+  };
+
+  return (
+    <Card className="border-border/50 shadow-soft overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-border/50">
+        <FileText className="w-4 h-4 text-muted-foreground" />
+        <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Source
+        </h2>
+        <span className="text-xs text-muted-foreground">
+          {spans.filter(Boolean).length} of {bulletPoints.length} references located
+        </span>
+        <div className="flex-1" />
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close source">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ResizablePanelGroup direction="horizontal" className="!h-[70vh]">
+        <ResizablePanel defaultSize={38} minSize={20}>
+          <div className="h-full overflow-y-auto p-4 space-y-2" onMouseLeave={() => setHoveredBullet(null)}>
+            {bulletPoints.map((_, index) => {
+              const isActive = activeBullet === index;
+              const isCiting = citingBullets.includes(index);
+              return (
+                <button
+                  key={index}
+                  type="button"
+                  onMouseEnter={() => setHoveredBullet(index)}
+                  onClick={() => setSelectedBullet(selectedBullet === index ? null : index)}
+                  className={`w-full flex items-start gap-2 rounded-lg border p-3 text-left text-sm transition-colors ${
+                    isActive || isCiting ? 'border-primary bg-primary/5' : 'border-border/50 hover:bg-muted/50'
+                  } ${selectedBullet === index ? 'ring-1 ring-primary' : ''}`}
+                >
+                  <ChevronRight className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  <span className="flex-1">
+                    {displayPoints[index]}
+                    {!spans[index] && (
+                      <span className="block mt-1 text-xs text-muted-foreground italic">
+                        Reference not found in the source
+                      </span>
+                    )}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+        <ResizablePanel defaultSize={62} minSize={30}>
+          <div className="h-full flex flex-col">
+            {selection && (
+              <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border/50 text-xs text-muted-foreground">
+                {citingBullets.length === 0 ? (
+                  'No key point cites the selected text.'
+                ) : (
+                  <>
+                    Cited by
+                    {citingBullets.map(index => (
+                      <Button
+                        key={index}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => setSelectedBullet(index)}
+                      >
+                        Point {index + 1}
+                      </Button>
+                    ))}
+                  </>
+                )}
+              </div>
+            )}
+            <div
+              ref={sourceRef}
+              className="flex-1 overflow-y-auto p-4 whitespace-pre-wrap text-sm leading-relaxed text-foreground/80"
+              onMouseUp={handleSourceMouseUp}
+            >
+              {segments.map(segment => (
+                <span key={segment.start} data-start={segment.start} className={segmentClass(segment)}>
+                  {content.slice(segment.start, segment.end)}
+                </span>
+              ))}
+            </div>
+          </div>
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </Card>
+  );
+};
@@ -0,0 +1,67 @@
+import { Badge } from "@/components/ui/badge";
+
+interface StructuredOutputProps {
+  value: unknown;
+}
+
+// Turns schema keys like "dueDate" or "due_date" into "Due date"
+const formatKey = (key: string) => {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Renders arbitrary JSON returned by a template with an output schema:
+// objects as labelled fields, arrays as numbered cards or badges.
+export const StructuredOutput = ({ value }: StructuredOutputProps) => {
+  if (value === null || value === undefined || value === '') {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  if (typeof value === 'boolean') {
+    return <Badge variant={value ? "default" : "outline"}>{value ? "Yes" : "No"}</Badge>;
+  }
+
+  if (typeof value !== 'object') {
+    return <span className="leading-relaxed">{String(value)}</span>;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return <span className="text-muted-foreground">None</span>;
+    }
+    if (value.every(item => typeof item !== 'object' || item === null)) {
+      return (
+        <div className="flex flex-wrap gap-1">
+          {value.map((item, index) => (
+            <Badge key={index} variant="secondary" className="font-normal">{String(item)}</Badge>
+          ))}
+        </div>
+      );
+    }
+    return (
+      <ol className="space-y-3">
+        {value.map((item, index) => (
+          <li key={index} className="flex gap-3 rounded-lg border border-border/50 p-4">
+            <span className="text-sm font-semibold text-primary">{index + 1}.</span>
+            <div className="flex-1 min-w-0">
+              <StructuredOutput value={item} />
+            </div>
+          </li>
+        ))}
+      </ol>
+    );
+  }
+
+  return (
+    <dl className="space-y-3">
+      {Object.entries(value as Record<string, unknown>).map(([key, field]) => (
+        <div key={key} className="space-y-1">
+          <dt className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">{formatKey(key)}</dt>
+          <dd className="text-base">
+            <StructuredOutput value={field} />
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
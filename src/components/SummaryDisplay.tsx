@@ -2,19 +2,27 @@ import { useState, useEffect, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Languages, Copy, Check, ChevronRight, ChevronDown, ChevronUp } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Languages, Copy, Check, ChevronRight, ChevronDown, ChevronUp, Layers, Square, Loader2, Columns2, Download, Share2, Play, ExternalLink } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-
-interface BulletPoint {
-  point: string;
-  reference: string;
-}
-
-interface Summary {
-  summary: string;
-  bulletPoints: BulletPoint[];
-}
+import type { BulletPoint, Summary } from "@/types/summary";
+import { describeSummaryOptions } from "@/lib/summaryOptions";
+import { LANGUAGES } from "@/lib/languages";
+import { buildHistoryTitle } from "@/lib/summaryHistory";
+import { EXPORT_FORMATS, exportSummary, type ExportFormat } from "@/lib/summaryExport";
+import { getExpandedContext as getSourceContext, pageAtOffset, resolveReferenceSpan } from "@/lib/sourceContext";
+import { OutputValidationError, isHttpUrl, parseTranslatedSummary, toTranslatableSummary } from "@/lib/summarySchema";
+import { StructuredOutput } from "@/components/StructuredOutput";
+import { DocumentChat } from "@/components/DocumentChat";
+import { SourceViewer } from "@/components/SourceViewer";
+import { ShareDialog } from "@/components/ShareDialog";
+import { MediaPlayer, type MediaPlayerHandle } from "@/components/MediaPlayer";
+import { ChapterOutline } from "@/components/ChapterOutline";
+import { PlaylistOutline } from "@/components/PlaylistOutline";
+import { formatTimestamp, getMediaEmbed } from "@/lib/mediaEmbed";
 
 interface SummaryDisplayProps {
   summary: Summary;
@@ -25,24 +33,13 @@ interface SummaryDisplayProps {
   onSearchComplete?: () => void;
   translatedSummary: Summary | null;
   onTranslatedSummaryChange: (summary: Summary | null) => void;
+  onTranslated?: (languageCode: string, translated: Summary) => void;
+  isStreaming?: boolean;
+  // `unit` names what is being counted, sections by default
+  streamProgress?: { completed: number; total: number; unit?: string } | null;
+  onCancel?: () => void;
 }
 
-const LANGUAGES = [
-  { code: "en", name: "English" },
-  { code: "es", name: "Spanish" },
-  { code: "fr", name: "French" },
-  { code: "de", name: "German" },
-  { code: "it", name: "Italian" },
-  { code: "pt", name: "Portuguese" },
-  { code: "ro", name: "Romanian" },
-  { code: "ru", name: "Russian" },
-  { code: "zh", name: "Chinese" },
-  { code: "ja", name: "Japanese" },
-  { code: "ko", name: "Korean" },
-  { code: "ar", name: "Arabic" },
-  { code: "hi", name: "Hindi" },
-];
-
 export const SummaryDisplay = ({ 
   summary, 
   originalContent, 
@@ -51,7 +48,11 @@ export const SummaryDisplay = ({
   searchHighlight, 
   onSearchComplete,
   translatedSummary: externalTranslatedSummary,
-  onTranslatedSummaryChange
+  onTranslatedSummaryChange,
+  onTranslated,
+  isStreaming = false,
+  streamProgress,
+  onCancel
 }: SummaryDisplayProps) => {
   const [isTranslating, setIsTranslating] = useState(false);
   const [selectedLanguage, setSelectedLanguage] = useState<string>("");
@@ -62,11 +63,21 @@ export const SummaryDisplay = ({
   const [translatingRefs, setTranslatingRefs] = useState<Set<number>>(new Set());
   const [highlightQuery, setHighlightQuery] = useState<string>("");
   const [translatedQuery, setTranslatedQuery] = useState<string>("");
+  const [showSource, setShowSource] = useState(false);
+  const [sourceQuery, setSourceQuery] = useState<string>("");
+  const [shareOpen, setShareOpen] = useState(false);
   const bulletRefs = useRef<(HTMLDivElement | null)[]>([]);
   const summaryRef = useRef<HTMLDivElement | null>(null);
+  const playerRef = useRef<MediaPlayerHandle>(null);
+  const playerContainerRef = useRef<HTMLDivElement | null>(null);
+  // Video sources get a player that key points can jump into
+  const mediaEmbed = getMediaEmbed(originalUrl);
   const { toast } = useToast();
 
   const displaySummary = externalTranslatedSummary || summary;
+  // Translations restored from history don't go through the language picker
+  const translationLanguage = LANGUAGES.find(l => l.code === selectedLanguage)?.name || 'Translation';
+  const hasStructuredOutput = summary.structuredOutput !== undefined;
   const activeQuery = externalTranslatedSummary && translatedQuery ? translatedQuery : highlightQuery;
 
   // Handle search highlight scrolling
@@ -86,6 +97,10 @@ export const SummaryDisplay = ({
             }, 2000);
           }, 100);
         }
+      } else if (searchHighlight.section === 'content') {
+        setShowSource(true);
+        setSourceQuery(searchHighlight.query || "");
+        if (onSearchComplete) onSearchComplete();
       } else if (searchHighlight.section === 'summary' && summaryRef.current) {
         setTimeout(() => {
           summaryRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
@@ -95,12 +110,24 @@ export const SummaryDisplay = ({
     }
   }, [searchHighlight, onSearchComplete]);
 
+  // Built as React nodes so the text is never parsed as HTML; summaries can
+  // come from imported history files
   const highlightText = (text: string, query: string) => {
     if (!query) return text;
     const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`, "gi");
-    return text.replace(regex, '<mark class="bg-primary/20 text-primary rounded px-0.5">$1</mark>');
+    // With the capturing group, every odd part is a match
+    return text.split(regex).map((part, i) =>
+      i % 2 === 1 ? <mark key={i} className="bg-primary/20 text-primary rounded px-0.5">{part}</mark> : part
+    );
   };
 
+  // Keep the pre-translation copy in sync while the summary is still streaming in
+  useEffect(() => {
+    if (!externalTranslatedSummary) {
+      setOriginalSummaryBeforeTranslation(summary);
+    }
+  }, [summary, externalTranslatedSummary]);
+
   // Reset translated query when switching back to original
   useEffect(() => {
     if (!externalTranslatedSummary) {
@@ -123,24 +150,16 @@ export const SummaryDisplay = ({
       const languageName = LANGUAGES.find(l => l.code === languageCode)?.name || languageCode;
       
       // Translate the summary
-      const { data, error } = await supabase.functions.invoke('translate-content', {
-        body: { 
-          text: JSON.stringify(summary),
-          targetLanguage: languageName
-        }
-      });
-
-      if (error) throw error;
-
-      const translated = JSON.parse(data.translatedText);
+      const translated = await translateSummary(languageName);
       onTranslatedSummaryChange(translated);
+      onTranslated?.(languageCode, translated);
       
       // Translate all currently expanded context sections at once
       if (expandedRefs.size > 0) {
         const expandedIndices = Array.from(expandedRefs);
         const translationPromises = expandedIndices.map(async (index) => {
           const originalBp = summary.bulletPoints[index];
-          const { text } = getExpandedContext(originalBp.point, originalBp.reference);
+          const { text } = getExpandedContext(originalBp.point, originalBp.reference, originalBp);
           
           const { data: contextData, error: contextError } = await supabase.functions.invoke('translate-content', {
             body: { 
@@ -188,7 +207,7 @@ export const SummaryDisplay = ({
       console.error('Translation error:', error);
       toast({
         title: "Translation failed",
-        description: "Please try again later.",
+        description: error instanceof OutputValidationError ? error.message : "Please try again later.",
         variant: "destructive",
       });
     } finally {
@@ -196,8 +215,33 @@ export const SummaryDisplay = ({
     }
   };
 
+  // The translator occasionally mangles the JSON or drops a point, so an
+  // invalid result is requested once more before giving up
+  const translateSummary = async (languageName: string): Promise<Summary> => {
+    let lastError: OutputValidationError | null = null;
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const { data, error } = await supabase.functions.invoke('translate-content', {
+        body: {
+          text: JSON.stringify(toTranslatableSummary(summary)),
+          targetLanguage: languageName
+        }
+      });
+
+      if (error) throw error;
+
+      try {
+        return parseTranslatedSummary(data.translatedText, summary);
+      } catch (parseError) {
+        if (!(parseError instanceof OutputValidationError)) throw parseError;
+        console.log('Invalid translation, retrying:', parseError.issues);
+        lastError = parseError;
+      }
+    }
+    throw lastError;
+  };
+
   const handleCopy = async () => {
-    const text = `${displaySummary.summary}\n\nKey Points:\n${displaySummary.bulletPoints.map((bp, i) => 
+    const text = hasStructuredOutput ? JSON.stringify(summary.structuredOutput, null, 2) : `${displaySummary.summary}\n\nKey Points:\n${displaySummary.bulletPoints.map((bp, i) => 
       `${i + 1}. ${bp.point}\n   Reference: "${bp.reference}"`
     ).join('\n\n')}`;
     
@@ -211,127 +255,62 @@ export const SummaryDisplay = ({
     });
   };
 
-  const getExpandedContext = (bulletPoint: string, referenceText: string): { text: string; propositions: string[] } => {
-    // Extract meaningful propositions (phrases) from the bullet point
-    const propositions = bulletPoint
-      .split(/[;:,]/)
-      .map(phrase => phrase.trim())
-      .filter(phrase => phrase.length > 15)
-      .map(phrase => {
-        return phrase.replace(/^(the|a|an|and|or|but|however|therefore|this|these|that|those)\s+/i, '').trim();
-      })
-      .filter(phrase => phrase.length > 10);
-    
-    // If no good propositions found, extract key noun phrases
-    if (propositions.length === 0) {
-      const words = bulletPoint.split(/\s+/);
-      for (let i = 0; i < words.length - 2; i++) {
-        const phrase = words.slice(i, Math.min(i + 5, words.length)).join(' ');
-        if (phrase.length > 15) {
-          propositions.push(phrase);
-        }
-      }
-    }
-    
-    // Find the reference location - try multiple strategies
-    let referenceIndex = originalContent.indexOf(referenceText);
-    if (referenceIndex === -1) {
-      // Try with first 80 chars
-      const partialRef = referenceText.slice(0, Math.min(80, referenceText.length));
-      referenceIndex = originalContent.indexOf(partialRef);
-    }
-    if (referenceIndex === -1) {
-      // Try searching for key words from reference
-      const refWords = referenceText.split(/\s+/).filter(w => w.length > 4);
-      for (const word of refWords.slice(0, 5)) {
-        const idx = originalContent.toLowerCase().indexOf(word.toLowerCase());
-        if (idx !== -1) {
-          referenceIndex = idx;
-          break;
-        }
-      }
-    }
-    
-    // If still not found, return the reference with a warning
-    if (referenceIndex === -1) {
-      return { 
-        text: `Reference text: "${referenceText}"\n\n(Note: Could not locate exact reference in original content)`, 
-        propositions 
-      };
-    }
-    
-    // Start with a larger context window around the reference
-    const minWords = 200; // Minimum words to display
-    let contextWindow = 2000; // Start with larger window
-    let expandedContent = '';
-    
-    // Try to get context with increasing window sizes until we have enough words
-    while (expandedContent.split(/\s+/).length < minWords && contextWindow <= 8000) {
-      const start = Math.max(0, referenceIndex - contextWindow);
-      const end = Math.min(originalContent.length, referenceIndex + referenceText.length + contextWindow);
-      expandedContent = originalContent.slice(start, end).trim();
-      
-      if (expandedContent.split(/\s+/).length < minWords) {
-        contextWindow += 1000; // Increase window
-      } else {
-        break;
-      }
-      
-      // Add ellipsis if truncated
-      if (start > 0) expandedContent = '...' + expandedContent;
-      if (end < originalContent.length) expandedContent = expandedContent + '...';
-    }
-    
-    // If we still don't have enough content, search for additional relevant paragraphs
-    if (expandedContent.split(/\s+/).length < minWords) {
-      const paragraphs = originalContent.split(/\n\n+/);
-      const relevantParagraphs: Array<{text: string, score: number}> = [];
-      
-      for (const paragraph of paragraphs) {
-        if (paragraph.length < 50) continue; // Skip very short paragraphs
-        
-        let score = 0;
-        const paragraphLower = paragraph.toLowerCase();
-        
-        // Score based on proposition matches
-        for (const proposition of propositions) {
-          const propWords = proposition.toLowerCase().split(/\s+/).filter(w => w.length > 3);
-          let matchCount = 0;
-          for (const word of propWords) {
-            if (paragraphLower.includes(word)) matchCount++;
-          }
-          if (matchCount > propWords.length * 0.4) {
-            score += matchCount;
-          }
-        }
-        
-        // Also score based on reference text words
-        const refWords = referenceText.toLowerCase().split(/\s+/).filter(w => w.length > 4);
-        for (const word of refWords) {
-          if (paragraphLower.includes(word)) score += 1;
-        }
-        
-        if (score > 0) {
-          relevantParagraphs.push({ text: paragraph, score });
-        }
-      }
-      
-      // Sort by score and add top paragraphs
-      relevantParagraphs.sort((a, b) => b.score - a.score);
-      const topParagraphs = relevantParagraphs.slice(0, 5).map(p => p.text);
-      
-      if (topParagraphs.length > 0) {
-        expandedContent += '\n\n---\n\nAdditional relevant context:\n\n' + topParagraphs.join('\n\n---\n\n');
-      }
-    }
-    
-    // Limit to 500 words maximum
-    const words = expandedContent.split(/\s+/);
-    if (words.length > 500) {
-      expandedContent = words.slice(0, 500).join(' ') + '...';
+  const handleExport = async (exportFormat: ExportFormat) => {
+    try {
+      await exportSummary(exportFormat, {
+        title: buildHistoryTitle(originalSummaryBeforeTranslation, originalUrl),
+        summary: originalSummaryBeforeTranslation,
+        sourceUrl: originalUrl,
+        generatedAt: summary.generatedAt ? new Date(summary.generatedAt) : new Date(),
+        translation: externalTranslatedSummary
+          ? { language: translationLanguage, summary: externalTranslatedSummary }
+          : undefined,
+      });
+    } catch (error) {
+      console.error('Export error:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export summary",
+        variant: "destructive",
+      });
     }
-    
-    return { text: expandedContent, propositions };
+  };
+
+  // `source` carries the chunk and verified offsets of the original bullet point
+  const getExpandedContext = (bulletPoint: string, referenceText: string, source?: BulletPoint) =>
+    getSourceContext(
+      originalContent,
+      bulletPoint,
+      referenceText,
+      source?.chunkIndex !== undefined ? summary.chunking?.chunks[source.chunkIndex] : undefined,
+      source?.start !== undefined && source.end !== undefined ? { start: source.start, end: source.end } : undefined
+    );
+
+  const jumpTo = (seconds: number) => {
+    playerRef.current?.seekTo(seconds);
+    playerContainerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  // Which page of a multi-page article or a PDF the reference comes from
+  const referencePage = (source?: BulletPoint): number | null => {
+    if (!source || !originalContent) return null;
+    const chunk = source.chunkIndex !== undefined ? summary.chunking?.chunks[source.chunkIndex] : undefined;
+    const span = resolveReferenceSpan(originalContent, source, chunk);
+    return span ? pageAtOffset(originalContent, span.start) : null;
+  };
+
+  // Marks the exact referenced passage; falls back to propositions if the
+  // passage was cut off by the context length limit
+  const highlightPassage = (text: string, passage: string, propositions: string[]) => {
+    const index = text.indexOf(passage);
+    if (index === -1) return highlightPropositions(text, propositions);
+    return [
+      text.slice(0, index),
+      <mark key="passage" className="bg-primary/20 dark:bg-primary/30 px-1 rounded font-semibold">
+        {passage}
+      </mark>,
+      text.slice(index + passage.length),
+    ];
   };
 
   const highlightPropositions = (text: string, propositions: string[]) => {
@@ -436,7 +415,7 @@ export const SummaryDisplay = ({
         try {
           // Get the original expanded context
           const originalBp = originalSummaryBeforeTranslation.bulletPoints[index];
-          const { text } = getExpandedContext(originalBp.point, originalBp.reference);
+          const { text } = getExpandedContext(originalBp.point, originalBp.reference, originalBp);
           
           // Translate it
           const languageName = LANGUAGES.find(l => l.code === selectedLanguage)?.name || selectedLanguage;
@@ -494,7 +473,8 @@ export const SummaryDisplay = ({
             const fallbackBp = displaySummary.bulletPoints[i];
             const { text } = getExpandedContext(
               originalBp?.point || fallbackBp?.point,
-              originalBp?.reference || fallbackBp?.reference
+              originalBp?.reference || fallbackBp?.reference,
+              originalBp
             );
             const { data, error } = await supabase.functions.invoke('translate-content', {
               body: { text, targetLanguage: languageName },
@@ -533,9 +513,20 @@ export const SummaryDisplay = ({
           Back
         </Button>
         <div className="flex-1" />
+        {isStreaming && onCancel && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onCancel}
+            className="gap-2"
+          >
+            <Square className="w-4 h-4" />
+            Stop
+          </Button>
+        )}
         <div className="flex items-center gap-2">
           <Languages className="w-5 h-5 text-muted-foreground" />
-          <Select value={selectedLanguage} onValueChange={handleTranslate} disabled={isTranslating}>
+          <Select value={selectedLanguage} onValueChange={handleTranslate} disabled={isTranslating || isStreaming || hasStructuredOutput}>
             <SelectTrigger className="w-[200px]">
               <SelectValue placeholder="Translate to..." />
             </SelectTrigger>
@@ -549,10 +540,49 @@ export const SummaryDisplay = ({
           </Select>
         </div>
 
+        <Button
+          variant={showSource ? "secondary" : "outline"}
+          size="sm"
+          onClick={() => setShowSource(!showSource)}
+          disabled={isStreaming || !originalContent || hasStructuredOutput}
+          className="gap-2"
+        >
+          <Columns2 className="w-4 h-4" />
+          Source
+        </Button>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShareOpen(true)}
+          disabled={isStreaming || hasStructuredOutput}
+          className="gap-2"
+        >
+          <Share2 className="w-4 h-4" />
+          Share
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isStreaming || hasStructuredOutput} className="gap-2">
+              <Download className="w-4 h-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {EXPORT_FORMATS.map((option) => (
+              <DropdownMenuItem key={option.value} onClick={() => handleExport(option.value)}>
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
         <Button
           variant="outline"
           size="sm"
           onClick={handleCopy}
+          disabled={isStreaming}
           className="gap-2"
         >
           {copied ? (
@@ -569,100 +599,244 @@ export const SummaryDisplay = ({
         </Button>
       </div>
 
-      <Card className="p-8 bg-gradient-to-br from-card to-card/95 border-border/50 shadow-soft">
-        <div className="space-y-6">
-          <div className="space-y-3" ref={summaryRef}>
-            <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-              Overview
-            </h2>
-            <p 
-              className="text-lg leading-relaxed text-foreground/90"
-              dangerouslySetInnerHTML={{ __html: highlightText(displaySummary.summary, activeQuery) }}
-            />
+      {hasStructuredOutput ? (
+        <Card className="p-8 bg-gradient-to-br from-card to-card/95 border-border/50 shadow-soft">
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2">
+              <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                {summary.template?.name ?? "Structured Output"}
+              </h2>
+              <div className="flex-1" />
+              {summary.template && (
+                <Badge variant="secondary" className="font-normal">
+                  {summary.template.language}
+                </Badge>
+              )}
+            </div>
+            <StructuredOutput value={summary.structuredOutput} />
           </div>
+        </Card>
+      ) : (
+        <Card className="p-8 bg-gradient-to-br from-card to-card/95 border-border/50 shadow-soft">
+          <div className="space-y-6">
+            {summary.chunking && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground bg-muted/50 rounded-lg px-3 py-2">
+                <Layers className="w-4 h-4 text-primary shrink-0" />
+                This content was too long for a single pass, so it was summarized in {summary.chunking.chunkCount} overlapping sections and merged.
+              </div>
+            )}
+            <div className="space-y-3" ref={summaryRef}>
+              <div className="flex flex-wrap items-center gap-2">
+                <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                  Overview
+                </h2>
+                <div className="flex-1" />
+                {summary.template && (
+                <Badge variant="outline" className="font-normal">
+                  {summary.template.name}
+                </Badge>
+              )}
+              {summary.options && describeSummaryOptions(summary.options).map((label) => (
+                  <Badge key={label} variant="secondary" className="font-normal">
+                    {label}
+                  </Badge>
+                ))}
+              </div>
+              {isStreaming && !displaySummary.summary ? (
+                <div className="space-y-2">
+                  {streamProgress && (
+                    <p className="text-sm text-muted-foreground">
+                      Summarized {streamProgress.completed} of {streamProgress.total} {streamProgress.unit ?? 'sections'}...
+                    </p>
+                  )}
+                  <Skeleton className="h-5 w-full" />
+                  <Skeleton className="h-5 w-5/6" />
+                  <Skeleton className="h-5 w-2/3" />
+                </div>
+              ) : (
+                <p className="text-lg leading-relaxed text-foreground/90">
+                  {highlightText(displaySummary.summary, activeQuery)}
+                </p>
+              )}
+            </div>
 
-          <div className="h-px bg-gradient-to-r from-transparent via-border to-transparent" />
+            {mediaEmbed && (
+              <div ref={playerContainerRef}>
+                <MediaPlayer ref={playerRef} embed={mediaEmbed} />
+              </div>
+            )}
+
+            <div className="h-px bg-gradient-to-r from-transparent via-border to-transparent" />
 
-          <div className="space-y-4">
-            <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-              Key Points
-            </h2>
             <div className="space-y-4">
-              {displaySummary.bulletPoints.map((bp, index) => (
-                <div 
-                  key={index}
-                  ref={(el) => bulletRefs.current[index] = el}
-                  className="group relative pl-6 pb-4 last:pb-0 border-l-2 border-primary/30 hover:border-primary transition-all rounded-lg"
-                >
-                  <div className="absolute left-0 top-0 -translate-x-1/2 w-4 h-4 rounded-full bg-primary/20 group-hover:bg-primary/40 transition-colors flex items-center justify-center">
-                    <ChevronRight className="w-3 h-3 text-primary" />
-                  </div>
-                  <div className="space-y-2">
-                    <p 
-                      className="text-base font-medium leading-relaxed"
-                      dangerouslySetInnerHTML={{ __html: highlightText(bp.point, activeQuery) }}
-                    />
+              <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                Key Points
+              </h2>
+              <div className="space-y-4">
+                {displaySummary.bulletPoints.map((bp, index) => (
+                  <div 
+                    key={index}
+                    ref={(el) => bulletRefs.current[index] = el}
+                    className="group relative pl-6 pb-4 last:pb-0 border-l-2 border-primary/30 hover:border-primary transition-all rounded-lg animate-in fade-in duration-300"
+                  >
+                    <div className="absolute left-0 top-0 -translate-x-1/2 w-4 h-4 rounded-full bg-primary/20 group-hover:bg-primary/40 transition-colors flex items-center justify-center">
+                      <ChevronRight className="w-3 h-3 text-primary" />
+                    </div>
                     <div className="space-y-2">
-                      <blockquote className="text-sm text-muted-foreground italic pl-4 border-l-2 border-muted-foreground/20">
-                        {expandedRefs.has(index) ? (
-                          <div className="space-y-2">
-                            <div className="font-semibold text-foreground">Relevant Context:</div>
-                            {translatingRefs.has(index) ? (
-                              <div className="flex items-center gap-2 text-muted-foreground">
-                                <div className="animate-spin h-4 w-4 border-2 border-primary border-t-transparent rounded-full" />
-                                Translating...
-                              </div>
+                      <p className="text-base font-medium leading-relaxed">
+                        {highlightText(bp.point, activeQuery)}
+                      </p>
+                      <div className="space-y-2">
+                        <blockquote className="text-sm text-muted-foreground italic pl-4 border-l-2 border-muted-foreground/20">
+                          {expandedRefs.has(index) ? (
+                            <div className="space-y-2">
+                              <div className="font-semibold text-foreground">Relevant Context:</div>
+                              {translatingRefs.has(index) ? (
+                                <div className="flex items-center gap-2 text-muted-foreground">
+                                  <div className="animate-spin h-4 w-4 border-2 border-primary border-t-transparent rounded-full" />
+                                  Translating...
+                                </div>
+                              ) : (
+                                <div className="whitespace-pre-wrap">
+                                  {(() => {
+                                    // If we have a translated version and we're in translated mode, show it
+                                    if (externalTranslatedSummary && translatedExpandedTexts.has(index)) {
+                                      return translatedExpandedTexts.get(index);
+                                    }
+                                    
+                                    // Otherwise show original with highlighting
+                                    const originalBp = originalSummaryBeforeTranslation.bulletPoints[index];
+                                    const { text, propositions, passage } = getExpandedContext(
+                                      originalBp?.point || bp.point, 
+                                      originalBp?.reference || bp.reference,
+                                      originalBp
+                                    );
+                                    return passage
+                                      ? highlightPassage(text, passage, propositions)
+                                      : highlightPropositions(text, propositions);
+                                  })()}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <div className="line-clamp-2">
+                              "{bp.reference}"
+                            </div>
+                          )}
+                        </blockquote>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleReference(index)}
+                            className="h-7 text-xs gap-1"
+                          >
+                            {expandedRefs.has(index) ? (
+                              <>
+                                <ChevronUp className="w-3 h-3" />
+                                Show less
+                              </>
                             ) : (
-                              <div className="whitespace-pre-wrap">
-                                {(() => {
-                                  // If we have a translated version and we're in translated mode, show it
-                                  if (externalTranslatedSummary && translatedExpandedTexts.has(index)) {
-                                    return translatedExpandedTexts.get(index);
-                                  }
-                                  
-                                  // Otherwise show original with highlighting
-                                  const originalBp = originalSummaryBeforeTranslation.bulletPoints[index];
-                                  const { text, propositions } = getExpandedContext(
-                                    originalBp?.point || bp.point, 
-                                    originalBp?.reference || bp.reference
-                                  );
-                                  return highlightPropositions(text, propositions);
-                                })()}
-                              </div>
+                              <>
+                                <ChevronDown className="w-3 h-3" />
+                                Read more
+                              </>
                             )}
-                          </div>
-                        ) : (
-                          <div className="line-clamp-2">
-                            "{bp.reference}"
-                          </div>
-                        )}
-                      </blockquote>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => toggleReference(index)}
-                        className="h-7 text-xs gap-1"
-                      >
-                        {expandedRefs.has(index) ? (
-                          <>
-                            <ChevronUp className="w-3 h-3" />
-                            Show less
-                          </>
-                        ) : (
-                          <>
-                            <ChevronDown className="w-3 h-3" />
-                            Read more
-                          </>
-                        )}
-                      </Button>
+                          </Button>
+                          {(() => {
+                            const timestamp = originalSummaryBeforeTranslation.bulletPoints[index]?.timestamp;
+                            if (timestamp === undefined) return null;
+                            return mediaEmbed ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => jumpTo(timestamp)}
+                                className="h-7 text-xs gap-1 tabular-nums"
+                                title="Play from here"
+                              >
+                                <Play className="w-3 h-3" />
+                                {formatTimestamp(timestamp)}
+                              </Button>
+                            ) : (
+                              <Badge variant="outline" className="font-normal text-xs tabular-nums">{formatTimestamp(timestamp)}</Badge>
+                            );
+                          })()}
+                          {(() => {
+                            const page = referencePage(originalSummaryBeforeTranslation.bulletPoints[index]);
+                            return page !== null && (
+                              <Badge variant="outline" className="font-normal text-xs">p. {page}</Badge>
+                            );
+                          })()}
+                          {originalSummaryBeforeTranslation.bulletPoints[index]?.videoIndexes?.map((videoIndex) => {
+                            const video = summary.playlist?.videos[videoIndex];
+                            return video && isHttpUrl(video.url) && (
+                              <Button key={videoIndex} variant="outline" size="sm" className="h-7 text-xs gap-1" title={video.title} asChild>
+                                <a href={video.url} target="_blank" rel="noopener noreferrer">
+                                  Video {videoIndex + 1}
+                                  <ExternalLink className="w-3 h-3" />
+                                </a>
+                              </Button>
+                            );
+                          })}
+                        </div>
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                ))}
+                {isStreaming && (
+                  <div className="flex items-center gap-2 pl-6 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                    Generating key points...
+                  </div>
+                )}
+              </div>
             </div>
+
+            {summary.chapters && summary.chapters.items.length > 0 && (
+              <>
+                <div className="h-px bg-gradient-to-r from-transparent via-border to-transparent" />
+                <ChapterOutline chapters={summary.chapters} onJump={mediaEmbed ? jumpTo : undefined} />
+              </>
+            )}
+
+            {summary.playlist && summary.playlist.videos.length > 0 && (
+              <>
+                <div className="h-px bg-gradient-to-r from-transparent via-border to-transparent" />
+                <PlaylistOutline playlist={summary.playlist} />
+              </>
+            )}
           </div>
-        </div>
-      </Card>
+        </Card>
+      )}
+
+      <ShareDialog
+        open={shareOpen}
+        onOpenChange={setShareOpen}
+        content={originalContent}
+        share={{
+          title: buildHistoryTitle(originalSummaryBeforeTranslation, originalUrl),
+          sourceUrl: originalUrl && /^https?:\/\//i.test(originalUrl) ? originalUrl : undefined,
+          summary: originalSummaryBeforeTranslation,
+          translation: externalTranslatedSummary
+            ? { language: translationLanguage, summary: externalTranslatedSummary }
+            : undefined,
+        }}
+      />
+
+      {showSource && !isStreaming && originalContent && !hasStructuredOutput && (
+        <SourceViewer
+          content={originalContent}
+          bulletPoints={originalSummaryBeforeTranslation.bulletPoints}
+          displayPoints={displaySummary.bulletPoints.map(bp => bp.point)}
+          chunks={summary.chunking?.chunks}
+          query={sourceQuery}
+          onClose={() => setShowSource(false)}
+        />
+      )}
+
+      {!isStreaming && originalContent && (
+        <DocumentChat content={originalContent} url={originalUrl} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Copy, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  TEMPLATE_VARIABLES,
+  deletePromptTemplate,
+  listPromptTemplates,
+  parseOutputSchema,
+  savePromptTemplate,
+  validatePromptTemplate,
+  type SavedPromptTemplate,
+} from "@/lib/promptTemplates";
+
+interface TemplateManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onTemplatesChange: (templates: SavedPromptTemplate[]) => void;
+}
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  prompt: string;
+  schemaText: string;
+}
+
+const toDraft = (template: SavedPromptTemplate, copy = false): TemplateDraft => ({
+  id: copy ? undefined : template.id,
+  name: copy ? `${template.name} (copy)` : template.name,
+  prompt: template.prompt,
+  schemaText: template.outputSchema ? JSON.stringify(template.outputSchema, null, 2) : "",
+});
+
+export const TemplateManager = ({ open, onOpenChange, onTemplatesChange }: TemplateManagerProps) => {
+  const [templates, setTemplates] = useState<SavedPromptTemplate[]>(listPromptTemplates);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const { toast } = useToast();
+
+  const refresh = () => {
+    const next = listPromptTemplates();
+    setTemplates(next);
+    onTemplatesChange(next);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const problem = validatePromptTemplate(draft);
+    if (problem) {
+      toast({ title: "Template not saved", description: problem, variant: "destructive" });
+      return;
+    }
+
+    let outputSchema: Record<string, unknown> | undefined;
+    try {
+      outputSchema = parseOutputSchema(draft.schemaText);
+    } catch (error) {
+      toast({ title: "Template not saved", description: (error as Error).message, variant: "destructive" });
+      return;
+    }
+
+    savePromptTemplate({ id: draft.id, name: draft.name, prompt: draft.prompt, outputSchema });
+    setDraft(null);
+    refresh();
+    toast({ title: "Template saved", description: `"${draft.name.trim()}" is available in the template selector` });
+  };
+
+  const handleDelete = (template: SavedPromptTemplate) => {
+    deletePromptTemplate(template.id);
+    if (draft?.id === template.id) setDraft(null);
+    refresh();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setDraft(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Prompt templates</DialogTitle>
+          <DialogDescription>
+            Write your own summarization recipes. Use {TEMPLATE_VARIABLES.map(v => `{{${v}}}`).join(", ")} as placeholders.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                placeholder="e.g. Meeting decisions"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-prompt">Prompt</Label>
+              <Textarea
+                id="template-prompt"
+                className="min-h-[140px]"
+                placeholder={"List every decision made in this meeting and who made it.\n\n{{content}}"}
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                The content is added at the end when the prompt has no {"{{content}}"} placeholder.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-schema">Output JSON schema (optional)</Label>
+              <Textarea
+                id="template-schema"
+                className="min-h-[120px] font-mono text-xs"
+                placeholder={'{\n  "type": "object",\n  "properties": { ... }\n}'}
+                value={draft.schemaText}
+                onChange={(e) => setDraft({ ...draft, schemaText: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Without a schema the result is shown as an overview with key points.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave}>Save template</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="max-h-[360px] overflow-y-auto space-y-2 pr-1">
+              {templates.map((template) => (
+                <div key={template.id} className="flex items-start gap-3 rounded-lg border p-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium truncate">{template.name}</span>
+                      {template.builtIn && <Badge variant="secondary">Built-in</Badge>}
+                      {template.outputSchema && <Badge variant="outline">JSON schema</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{template.prompt}</p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {!template.builtIn && (
+                      <Button size="icon" variant="ghost" title="Edit" onClick={() => setDraft(toDraft(template))}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button size="icon" variant="ghost" title="Duplicate" onClick={() => setDraft(toDraft(template, true))}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    {!template.builtIn && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Delete"
+                        className="hover:bg-destructive/10 hover:text-destructive"
+                        onClick={() => handleDelete(template)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => setDraft({ name: "", prompt: "{{content}}", schemaText: "" })}
+            >
+              <Plus className="w-4 h-4" />
+              New template
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -14,13 +14,108 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      shared_summaries: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          original_content: string | null
+          password_attempts: number
+          password_hash: string | null
+          password_salt: string | null
+          password_window_start: string | null
+          source_url: string | null
+          summary: Json
+          title: string
+          translated_summary: Json | null
+          translation_language: string | null
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id: string
+          original_content?: string | null
+          password_attempts?: number
+          password_hash?: string | null
+          password_salt?: string | null
+          password_window_start?: string | null
+          source_url?: string | null
+          summary: Json
+          title: string
+          translated_summary?: Json | null
+          translation_language?: string | null
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          original_content?: string | null
+          password_attempts?: number
+          password_hash?: string | null
+          password_salt?: string | null
+          password_window_start?: string | null
+          source_url?: string | null
+          summary?: Json
+          title?: string
+          translated_summary?: Json | null
+          translation_language?: string | null
+        }
+        Relationships: []
+      }
+      summaries: {
+        Row: {
+          content_hash: string
+          created_at: string
+          id: string
+          original_content: string | null
+          source_name: string | null
+          source_type: string
+          source_url: string | null
+          summary: Json
+          title: string
+          translations: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string
+          id?: string
+          original_content?: string | null
+          source_name?: string | null
+          source_type: string
+          source_url?: string | null
+          summary: Json
+          title: string
+          translations?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string
+          id?: string
+          original_content?: string | null
+          source_name?: string | null
+          source_type?: string
+          source_url?: string | null
+          summary?: Json
+          title?: string
+          translations?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_share_password_attempt: {
+        Args: { max_attempts: number; share_id: string; window_seconds: number }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,213 @@
+import type { Summary, SummaryOptions } from "@/types/summary";
+import { supabase } from "@/integrations/supabase/client";
+import { recordSummary, type HistoryRef } from "@/lib/history";
+import { fetchSourceContent } from "@/lib/sourceContent";
+import { parseSummary } from "@/lib/summarySchema";
+
+export type BatchItemStatus = 'queued' | 'fetching' | 'summarizing' | 'done' | 'error';
+
+export interface BatchItem {
+  id: string;
+  url: string;
+  status: BatchItemStatus;
+  attempts: number;
+  options?: SummaryOptions;
+  content?: string;
+  summary?: Summary;
+  historyRef?: HistoryRef | null;
+  error?: string;
+}
+
+// Thrown by the processor when the gateway answers 429; the item is put back
+// in the queue and the whole queue waits before starting anything else, until
+// the item has been tried MAX_ATTEMPTS times
+export class RateLimitError extends Error {
+  constructor(message = "Rate limit exceeded") {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+type BatchProcessor = (
+  item: BatchItem,
+  update: (changes: Partial<BatchItem>) => void
+) => Promise<void>;
+
+const DEFAULT_CONCURRENCY = 2;
+const RATE_LIMIT_BACKOFF_MS = 20000;
+const MAX_ATTEMPTS = 5;
+
+// Pulls http(s) links out of pasted text or a CSV export, one per cell or line
+export const parseUrlList = (text: string): string[] => {
+  const urls = (text.match(/https?:\/\/[^\s,;"'<>]+/gi) ?? []).map(url => url.replace(/[).\]]+$/, ''));
+  return [...new Set(urls)];
+};
+
+// A small queue whose state lives outside React so that workers finishing in
+// any order always see the latest items. Components read it through
+// useSyncExternalStore with `subscribe` and `getSnapshot`.
+export const createBatchQueue = (process: BatchProcessor, concurrency = DEFAULT_CONCURRENCY) => {
+  let items: BatchItem[] = [];
+  let pausedUntil: number | null = null;
+  let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+  const active = new Set<string>();
+  const listeners = new Set<() => void>();
+  let snapshot: { items: BatchItem[]; pausedUntil: number | null } = { items, pausedUntil };
+
+  const emit = () => {
+    snapshot = { items, pausedUntil };
+    listeners.forEach(listener => listener());
+  };
+
+  const update = (id: string, changes: Partial<BatchItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+    emit();
+  };
+
+  const pauseForRateLimit = () => {
+    pausedUntil = Date.now() + RATE_LIMIT_BACKOFF_MS;
+    if (resumeTimer) clearTimeout(resumeTimer);
+    resumeTimer = setTimeout(() => {
+      pausedUntil = null;
+      resumeTimer = null;
+      emit();
+      pump();
+    }, RATE_LIMIT_BACKOFF_MS);
+    emit();
+  };
+
+  const run = async (item: BatchItem) => {
+    const attempts = item.attempts + 1;
+    active.add(item.id);
+    update(item.id, { status: 'fetching', attempts, error: undefined });
+    try {
+      await process(item, changes => update(item.id, changes));
+      update(item.id, { status: 'done' });
+    } catch (error) {
+      if (error instanceof RateLimitError && attempts >= MAX_ATTEMPTS) {
+        console.error('Batch item still rate limited, giving up:', item.url);
+        update(item.id, { status: 'error', error: `Still rate limited after ${attempts} attempts` });
+      } else if (error instanceof RateLimitError) {
+        console.log('Batch queue hit the rate limit, pausing:', item.url);
+        update(item.id, { status: 'queued' });
+        pauseForRateLimit();
+      } else {
+        console.error('Batch item failed:', item.url, error);
+        update(item.id, { status: 'error', error: error instanceof Error ? error.message : 'Failed to summarize' });
+      }
+    } finally {
+      active.delete(item.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (pausedUntil) return;
+    const queued = items.filter(item => item.status === 'queued' && !active.has(item.id));
+    queued.slice(0, Math.max(concurrency - active.size, 0)).forEach(item => void run(item));
+  };
+
+  return {
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getSnapshot: () => snapshot,
+    add: (urls: string[], options?: SummaryOptions) => {
+      const known = new Set(items.map(item => item.url));
+      const added = urls
+        .filter(url => !known.has(url))
+        .map((url): BatchItem => ({ id: crypto.randomUUID(), url, status: 'queued', attempts: 0, options }));
+      items = [...items, ...added];
+      emit();
+      pump();
+      return added.length;
+    },
+    // Manual retries start counting attempts again
+    retry: (id: string) => {
+      update(id, { status: 'queued', attempts: 0, error: undefined });
+      pump();
+    },
+    retryFailed: () => {
+      items = items.map(item => item.status === 'error' ? { ...item, status: 'queued', attempts: 0, error: undefined } : item);
+      emit();
+      pump();
+    },
+    remove: (id: string) => {
+      if (active.has(id)) return;
+      items = items.filter(item => item.id !== id);
+      emit();
+    },
+    // Items already being processed finish, everything else is dropped
+    clear: () => {
+      items = items.filter(item => active.has(item.id));
+      emit();
+    },
+  };
+};
+
+export type BatchQueue = ReturnType<typeof createBatchQueue>;
+
+// supabase.functions.invoke hides the response body behind a generic message
+const toSummarizeError = async (error: unknown): Promise<Error> => {
+  const response = (error as { context?: Response }).context;
+  if (response?.status === 429) return new RateLimitError();
+  const body = await response?.json().catch(() => null);
+  return new Error(body?.error || (error instanceof Error ? error.message : 'Failed to generate summary'));
+};
+
+const summarizeBatchItem: BatchProcessor = async (item, update) => {
+  const content = await fetchSourceContent(item.url);
+  update({ status: 'summarizing', content });
+
+  const { data, error } = await supabase.functions.invoke('summarize-content', {
+    body: { content, url: item.url, options: item.options }
+  });
+  if (error) throw await toSummarizeError(error);
+
+  const summary = parseSummary(data.summary);
+  let historyRef: HistoryRef | null = null;
+  try {
+    historyRef = await recordSummary({ sourceType: 'url', sourceUrl: item.url, content, summary });
+  } catch (historyError) {
+    console.error('Failed to save batch summary to history:', historyError);
+  }
+  update({ summary, historyRef });
+};
+
+// Module-level so the queue keeps running while the user opens a result
+export const batchQueue = createBatchQueue(summarizeBatchItem);
+
+// Spreadsheets run cells starting with these as formulas, so page titles and
+// summaries are prefixed with a quote to keep them plain text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (raw: string) => {
+  const value = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const exportBatchCsv = (items: BatchItem[]): string => {
+  const header = ['url', 'status', 'overview', 'key_points', 'error'];
+  const rows = items.map(item => [
+    item.url,
+    item.status,
+    item.summary?.summary ?? '',
+    // Not "-", which would need escaping as a formula in every row
+    (item.summary?.bulletPoints ?? []).map(bp => `• ${bp.point}`).join('\n'),
+    item.error ?? '',
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+export const exportBatchJson = (items: BatchItem[]): string =>
+  JSON.stringify(
+    items.map(item => ({
+      url: item.url,
+      status: item.status,
+      summary: item.summary ?? null,
+      error: item.error ?? null,
+    })),
+    null,
+    2
+  );
@@ -0,0 +1,45 @@
+export type CompareSourceType = 'url' | 'text' | 'file';
+
+export interface CompareSourceInput {
+  id: string;
+  type: CompareSourceType;
+  value: string;
+  // File name for file sources
+  name?: string;
+  // True while an uploaded file is being converted to text
+  isProcessing?: boolean;
+}
+
+export const MIN_COMPARE_SOURCES = 2;
+export const MAX_COMPARE_SOURCES = 4;
+
+export const createCompareSource = (): CompareSourceInput => ({
+  id: crypto.randomUUID(),
+  type: 'url',
+  value: '',
+});
+
+// Sources are referred to as A, B, C... throughout the comparison view
+export const sourceLabel = (index: number) => String.fromCharCode(65 + index);
+
+const SOURCE_COLORS = [
+  'bg-blue-500/15 text-blue-700 dark:text-blue-300 border-blue-500/30',
+  'bg-emerald-500/15 text-emerald-700 dark:text-emerald-300 border-emerald-500/30',
+  'bg-amber-500/15 text-amber-700 dark:text-amber-300 border-amber-500/30',
+  'bg-violet-500/15 text-violet-700 dark:text-violet-300 border-violet-500/30',
+];
+
+export const sourceColor = (index: number) => SOURCE_COLORS[index % SOURCE_COLORS.length];
+
+export const buildSourceTitle = (source: CompareSourceInput, index: number): string => {
+  if (source.type === 'file' && source.name) return source.name;
+  if (source.type === 'url') {
+    try {
+      const url = new URL(source.value);
+      return `${url.hostname}${url.pathname === '/' ? '' : url.pathname}`;
+    } catch {
+      return source.value;
+    }
+  }
+  return `Text ${sourceLabel(index)}`;
+};
@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+import { DocumentAnswerSchema, OutputValidationError, formatIssues, type DocumentAnswer } from "@/lib/summarySchema";
+
+// Offsets into the source text are present when the edge function verified the quote
+export type ChatCitation = DocumentAnswer['citations'][number];
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: ChatCitation[];
+  // false when the source does not contain the answer
+  answerable?: boolean;
+}
+
+// Conversations are kept in memory for the session only, keyed by the source
+// they are about, so reopening a summary brings its conversation back
+const sessions = new Map<string, ChatMessage[]>();
+
+// FNV-1a; only needs to tell sources apart within one session
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+export const chatSessionKey = (content: string, url?: string) => `${url ?? ''}:${content.length}:${hashText(content)}`;
+
+export const getChatSession = (key: string): ChatMessage[] => sessions.get(key) ?? [];
+
+export const saveChatSession = (key: string, messages: ChatMessage[]) => {
+  if (messages.length === 0) sessions.delete(key);
+  else sessions.set(key, messages);
+};
+
+export const askDocument = async (content: string, question: string, history: ChatMessage[]): Promise<ChatMessage> => {
+  const { data, error } = await supabase.functions.invoke('ask-document', {
+    body: {
+      content,
+      question,
+      history: history.map(({ role, content }) => ({ role, content })),
+    }
+  });
+
+  if (error) {
+    const body = await (error as { context?: Response }).context?.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to answer question');
+  }
+
+  const result = DocumentAnswerSchema.safeParse(data?.answer);
+  if (!result.success) {
+    throw new OutputValidationError("The answer returned by the server is invalid", formatIssues(result.error));
+  }
+
+  return {
+    role: 'assistant',
+    content: result.data.answer,
+    citations: result.data.citations,
+    answerable: result.data.answerable,
+  };
+};
@@ -0,0 +1,144 @@
+import mammoth from 'mammoth';
+import * as XLSX from 'xlsx';
+import { supabase } from "@/integrations/supabase/client";
+import { ocrImage, ocrPdf, type OcrProgressHandler, type OcrReport } from "@/lib/ocr";
+
+export const SUPPORTED_FILE_TYPES = ".txt,.pdf,.csv,.docx,.xlsm,.ods,.xlsx,.png,.jpg,.jpeg";
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg'];
+
+export interface PdfOutlineItem {
+  title: string;
+  page: number | null;
+  // 0 for top-level bookmarks
+  level: number;
+}
+
+// Document properties and bookmarks reported by the parse-pdf edge function
+export interface PdfDetails {
+  pages: number;
+  metadata: {
+    title?: string;
+    author?: string;
+    subject?: string;
+    keywords?: string;
+    // YYYY-MM-DD
+    createdAt?: string;
+  };
+  outline: PdfOutlineItem[];
+}
+
+export interface ExtractedFile {
+  text: string;
+  // Set when the text was read with OCR, from an image or a scanned PDF
+  ocr?: OcrReport;
+  pdf?: PdfDetails;
+}
+
+export const getFileExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase();
+
+// Safely convert an ArrayBuffer to base64 without exceeding call stack (works for large PDFs)
+const arrayBufferToBase64 = (buffer: ArrayBuffer): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const blob = new Blob([buffer], { type: 'application/pdf' });
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        try {
+          const result = reader.result as string;
+          const base64 = result.split(',')[1] ?? '';
+          resolve(base64);
+        } catch (e) {
+          reject(e);
+        }
+      };
+      reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+      reader.readAsDataURL(blob);
+    } catch (e) {
+      reject(e);
+    }
+  });
+};
+
+export const isImageFile = (fileName: string) => IMAGE_EXTENSIONS.includes(getFileExtension(fileName) ?? '');
+
+// Extracts plain text from an uploaded file. PDFs are parsed by the parse-pdf
+// edge function; images, and PDFs it finds no text layer in, go through OCR.
+export const extractFileText = async (
+  file: File,
+  { onOcrProgress }: { onOcrProgress?: OcrProgressHandler } = {}
+): Promise<ExtractedFile> => {
+  const fileExtension = getFileExtension(file.name);
+  console.log('Processing file:', file.name, 'type:', fileExtension);
+
+  if (fileExtension === 'txt' || fileExtension === 'csv') {
+    const text = await file.text();
+    console.log('Text file content length:', text.length);
+    return { text };
+  }
+
+  if (isImageFile(file.name)) {
+    console.log('Starting image OCR...');
+    const { text, report } = await ocrImage(file);
+    if (!text) throw new Error('No text was recognized in the image');
+    console.log('Image text recognized, length:', text.length, 'confidence:', report.confidence);
+    return { text, ocr: report };
+  }
+
+  if (fileExtension === 'pdf') {
+    console.log('Starting PDF processing with document parser...');
+
+    // Convert file to base64 for edge function (safe for large files)
+    const arrayBuffer = await file.arrayBuffer();
+    const base64 = await arrayBufferToBase64(arrayBuffer);
+
+    const { data, error } = await supabase.functions.invoke('parse-pdf', {
+      body: {
+        pdfData: base64,
+        fileName: file.name
+      }
+    });
+
+    if (error) throw new Error(error.message || 'Failed to parse PDF');
+    const pdf: PdfDetails = { pages: data?.pages ?? 0, metadata: data?.metadata ?? {}, outline: data?.outline ?? [] };
+
+    if (data?.scanned) {
+      console.log('PDF has no text layer, starting OCR on', data.pages, 'pages...');
+      const { text, report } = await ocrPdf(arrayBuffer, onOcrProgress);
+      if (!text.replace(/^\[Page \d+\]$/gm, '').trim()) throw new Error('No text was recognized in the scanned PDF');
+      console.log('PDF text recognized, length:', text.length, 'confidence:', report.confidence);
+      return { text, ocr: report, pdf };
+    }
+
+    if (!data?.text) throw new Error('No text extracted from PDF');
+
+    console.log('PDF text extracted, length:', data.text.length);
+    return { text: data.text, pdf };
+  }
+
+  if (fileExtension === 'docx') {
+    console.log('Starting DOCX processing...');
+    const arrayBuffer = await file.arrayBuffer();
+    const result = await mammoth.extractRawText({ arrayBuffer });
+    console.log('DOCX text extracted, length:', result.value.length);
+    return { text: result.value };
+  }
+
+  if (fileExtension === 'xlsm' || fileExtension === 'ods' || fileExtension === 'xlsx') {
+    console.log('Starting spreadsheet processing...');
+    const arrayBuffer = await file.arrayBuffer();
+    const workbook = XLSX.read(arrayBuffer);
+    let fullText = '';
+
+    workbook.SheetNames.forEach(sheetName => {
+      const sheet = workbook.Sheets[sheetName];
+      const csv = XLSX.utils.sheet_to_csv(sheet);
+      fullText += `Sheet: ${sheetName}\n${csv}\n\n`;
+    });
+
+    console.log('Spreadsheet text extracted, length:', fullText.length);
+    return { text: fullText };
+  }
+
+  throw new Error('Unsupported file format. Please upload TXT, CSV, PDF, DOCX, spreadsheet, PNG or JPEG files.');
+};
@@ -0,0 +1,107 @@
+import type { Summary } from "@/types/summary";
+import {
+  buildHistoryTitle,
+  getHistoryEntry,
+  getHistorySettings,
+  replaceHistorySummary,
+  saveHistoryTranslation,
+  saveToHistory,
+  type HistoryStorage,
+  type SourceType,
+} from "@/lib/summaryHistory";
+import {
+  getLocalEntry,
+  isLocalHistoryUnlocked,
+  saveLocalEntry,
+  updateLocalEntry,
+} from "@/lib/localHistory";
+
+// Common entry points for the page that produces summaries, dispatching to the
+// Supabase-backed or the browser-only store depending on the user's settings.
+
+export interface HistoryRef {
+  id: string;
+  storage: HistoryStorage;
+}
+
+export interface HistoryRecord {
+  ref: HistoryRef;
+  sourceType: SourceType;
+  sourceUrl?: string;
+  sourceName?: string;
+  // null when the cloud entry was saved without its source text
+  content: string | null;
+  summary: Summary;
+}
+
+// Returns null when history is turned off
+export const recordSummary = async (input: {
+  sourceType: SourceType;
+  sourceUrl?: string;
+  sourceName?: string;
+  content: string;
+  summary: Summary;
+}): Promise<HistoryRef | null> => {
+  const settings = getHistorySettings();
+  if (!settings.enabled) return null;
+
+  if (settings.storage === 'local') {
+    if (!isLocalHistoryUnlocked()) {
+      throw new Error('Local history is locked. Unlock it on the History page to save summaries.');
+    }
+    const entry = await saveLocalEntry({
+      title: buildHistoryTitle(input.summary, input.sourceUrl, input.sourceName),
+      sourceType: input.sourceType,
+      originalUrl: input.sourceUrl,
+      sourceName: input.sourceName,
+      originalContent: input.content,
+      summary: input.summary,
+    });
+    return { id: entry.id, storage: 'local' };
+  }
+
+  const entry = await saveToHistory(input);
+  return { id: entry.id, storage: 'cloud' };
+};
+
+export const replaceRecordedSummary = async (ref: HistoryRef, content: string, summary: Summary) => {
+  if (ref.storage === 'local') {
+    await updateLocalEntry(ref.id, () => ({ originalContent: content, summary, translations: {} }));
+  } else {
+    await replaceHistorySummary(ref.id, content, summary);
+  }
+};
+
+export const recordTranslation = async (ref: HistoryRef, languageCode: string, translated: Summary) => {
+  if (ref.storage === 'local') {
+    await updateLocalEntry(ref.id, entry => ({
+      translations: { ...entry.translations, [languageCode]: translated },
+    }));
+  } else {
+    await saveHistoryTranslation(ref.id, languageCode, translated);
+  }
+};
+
+export const loadHistoryRecord = async (ref: HistoryRef): Promise<HistoryRecord> => {
+  if (ref.storage === 'local') {
+    const entry = await getLocalEntry(ref.id);
+    return {
+      ref,
+      sourceType: entry.sourceType,
+      sourceUrl: entry.originalUrl,
+      sourceName: entry.sourceName,
+      content: entry.originalContent,
+      summary: entry.summary,
+    };
+  }
+
+  const entry = await getHistoryEntry(ref.id);
+  return {
+    ref,
+    sourceType: entry.source_type,
+    sourceUrl: entry.source_url || undefined,
+    sourceName: entry.source_name || undefined,
+    content: entry.original_content,
+    summary: entry.summary,
+  };
+};
@@ -0,0 +1,311 @@
+import { z } from "zod";
+import type { Summary } from "@/types/summary";
+import type { SourceType } from "@/lib/summaryHistory";
+import { HttpUrlSchema, SummarySchema } from "@/lib/summarySchema";
+
+// Browser-only history: entries live in IndexedDB, encrypted with AES-GCM
+// using a key derived from the user's passphrase. Nothing is sent anywhere.
+
+export interface LocalHistoryEntry {
+  id: string;
+  title: string;
+  sourceType: SourceType;
+  originalUrl?: string;
+  sourceName?: string;
+  originalContent: string;
+  summary: Summary;
+  translations: Record<string, Summary>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+interface StoredEntry extends EncryptedPayload {
+  id: string;
+  createdAt: string;
+}
+
+interface KeyInfo {
+  salt: string;
+  verifier: EncryptedPayload;
+}
+
+interface ExportBundle extends KeyInfo {
+  format: typeof EXPORT_FORMAT;
+  version: 1;
+  exportedAt: string;
+  entries: StoredEntry[];
+}
+
+const DB_NAME = 'smart-summarizer-history';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+const KEY_INFO = 'keyInfo';
+const EXPORT_FORMAT = 'smart-summarizer-local-history';
+const VERIFIER_TEXT = 'smart-summarizer';
+const PBKDF2_ITERATIONS = 250000;
+
+// Imported files can come from anywhere, so their entries are checked before
+// they are stored and shown
+const LocalHistoryEntrySchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  sourceType: z.enum(['url', 'text', 'file']),
+  originalUrl: HttpUrlSchema.optional(),
+  sourceName: z.string().optional(),
+  originalContent: z.string(),
+  summary: SummarySchema,
+  translations: z.record(SummarySchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}) satisfies z.ZodType<LocalHistoryEntry, z.ZodTypeDef, unknown>;
+
+// The derived key only lives in memory, so a reload locks the history again
+let activeKey: CryptoKey | null = null;
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv: toBase64(iv), data: toBase64(data) };
+};
+
+const decrypt = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+// Returns the key if the passphrase decrypts the verifier, otherwise null
+const unlockKeyInfo = async (passphrase: string, keyInfo: KeyInfo): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, fromBase64(keyInfo.salt));
+  try {
+    const text = await decrypt<string>(key, keyInfo.verifier);
+    return text === VERIFIER_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open local history'));
+  });
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Local history operation failed'));
+      // Quota errors and closed databases abort the transaction without an error event
+      transaction.onabort = () => reject(transaction.error ?? new Error('Local history operation was aborted'));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const getKeyInfo = () =>
+  runRequest<KeyInfo | undefined>(META_STORE, 'readonly', store => store.get(KEY_INFO));
+
+const requireKey = (): CryptoKey => {
+  if (!activeKey) throw new Error('Local history is locked. Unlock it with your passphrase first.');
+  return activeKey;
+};
+
+export const isLocalHistoryUnlocked = () => activeKey !== null;
+
+export const isLocalHistorySetUp = async (): Promise<boolean> => !!(await getKeyInfo());
+
+export const setupLocalHistory = async (passphrase: string) => {
+  if (await getKeyInfo()) throw new Error('Local history already has a passphrase');
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt);
+  const keyInfo: KeyInfo = { salt: toBase64(salt), verifier: await encrypt(key, VERIFIER_TEXT) };
+  await runRequest(META_STORE, 'readwrite', store => store.put(keyInfo, KEY_INFO));
+  activeKey = key;
+};
+
+export const unlockLocalHistory = async (passphrase: string): Promise<boolean> => {
+  const keyInfo = await getKeyInfo();
+  if (!keyInfo) return false;
+  activeKey = await unlockKeyInfo(passphrase, keyInfo);
+  return activeKey !== null;
+};
+
+export const lockLocalHistory = () => {
+  activeKey = null;
+};
+
+export const listLocalEntries = async (): Promise<LocalHistoryEntry[]> => {
+  const key = requireKey();
+  const stored = await runRequest<StoredEntry[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+  const entries = await Promise.all(stored.map(s => decrypt<LocalHistoryEntry>(key, s)));
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getLocalEntry = async (id: string): Promise<LocalHistoryEntry> => {
+  const key = requireKey();
+  const stored = await runRequest<StoredEntry | undefined>(ENTRIES_STORE, 'readonly', store => store.get(id));
+  if (!stored) throw new Error('Summary not found in local history');
+  return decrypt<LocalHistoryEntry>(key, stored);
+};
+
+const putLocalEntry = async (entry: LocalHistoryEntry) => {
+  const key = requireKey();
+  const stored: StoredEntry = { id: entry.id, createdAt: entry.createdAt, ...(await encrypt(key, entry)) };
+  await runRequest(ENTRIES_STORE, 'readwrite', store => store.put(stored));
+};
+
+export const saveLocalEntry = async (
+  input: Omit<LocalHistoryEntry, 'id' | 'translations' | 'createdAt' | 'updatedAt'>
+): Promise<LocalHistoryEntry> => {
+  const now = new Date().toISOString();
+  const entry: LocalHistoryEntry = {
+    ...input,
+    id: crypto.randomUUID(),
+    translations: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putLocalEntry(entry);
+  return entry;
+};
+
+export const updateLocalEntry = async (
+  id: string,
+  update: (entry: LocalHistoryEntry) => Partial<LocalHistoryEntry>
+): Promise<LocalHistoryEntry> => {
+  const entry = await getLocalEntry(id);
+  const updated = { ...entry, ...update(entry), id, updatedAt: new Date().toISOString() };
+  await putLocalEntry(updated);
+  return updated;
+};
+
+export const deleteLocalEntry = (id: string) =>
+  runRequest(ENTRIES_STORE, 'readwrite', store => store.delete(id));
+
+// Exports stay encrypted; the same passphrase is needed to import them again
+export const exportLocalHistory = async (): Promise<string> => {
+  requireKey();
+  const keyInfo = await getKeyInfo();
+  const entries = await runRequest<StoredEntry[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+  const bundle: ExportBundle = {
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    salt: keyInfo!.salt,
+    verifier: keyInfo!.verifier,
+    entries,
+  };
+  return JSON.stringify(bundle);
+};
+
+// Decrypts an export with the passphrase it was made with and re-encrypts
+// every entry with the current key. Entries with the same id are replaced;
+// entries that don't decrypt or aren't valid history entries are skipped.
+export const importLocalHistory = async (
+  json: string,
+  passphrase: string
+): Promise<{ imported: number; skipped: number }> => {
+  requireKey();
+
+  let bundle: ExportBundle;
+  try {
+    bundle = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not a valid history export');
+  }
+  if (bundle?.format !== EXPORT_FORMAT || !Array.isArray(bundle.entries)) {
+    throw new Error('This file is not a valid history export');
+  }
+
+  const bundleKey = await unlockKeyInfo(passphrase, bundle);
+  if (!bundleKey) throw new Error('Wrong passphrase for this export');
+
+  let imported = 0;
+  for (const stored of bundle.entries) {
+    let entry: LocalHistoryEntry;
+    try {
+      const result = LocalHistoryEntrySchema.safeParse(await decrypt<unknown>(bundleKey, stored));
+      if (!result.success) {
+        console.warn('Skipping invalid history entry:', result.error.issues);
+        continue;
+      }
+      entry = result.data;
+    } catch (error) {
+      console.warn('Skipping history entry that could not be decrypted:', error);
+      continue;
+    }
+    await putLocalEntry(entry);
+    imported++;
+  }
+  return { imported, skipped: bundle.entries.length - imported };
+};
+
+export const wipeLocalHistory = (): Promise<void> => {
+  activeKey = null;
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error ?? new Error('Failed to wipe local history'));
+    request.onblocked = () => reject(new Error('Close other tabs of this app and try again'));
+  });
+};
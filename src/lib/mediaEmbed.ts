@@ -0,0 +1,53 @@
+import { formatTimestamp } from "../../supabase/functions/_shared/transcriptFormats";
+import { parseYouTubeUrl } from "../../supabase/functions/_shared/youtubeUrls";
+
+// Players that can be embedded for a source URL and told to jump to a moment
+// through their postMessage APIs.
+
+export { formatTimestamp };
+
+export interface MediaEmbed {
+  provider: 'youtube' | 'vimeo';
+  src: string;
+  // Where seek commands are posted
+  origin: string;
+}
+
+const VIMEO_ID = /vimeo\.com\/(?:video\/|(?:.*\/)?)(\d{5,})(?:\/([0-9a-f]{6,}))?(?:\?(?:.*&)?h=([0-9a-f]+))?/i;
+
+export const getMediaEmbed = (url?: string): MediaEmbed | null => {
+  if (!url) return null;
+
+  const youtube = parseYouTubeUrl(url);
+  if (youtube?.kind === 'video') {
+    return {
+      provider: 'youtube',
+      src: `https://www.youtube.com/embed/${youtube.videoId}?enablejsapi=1&rel=0&origin=${encodeURIComponent(window.location.origin)}`,
+      origin: 'https://www.youtube.com',
+    };
+  }
+
+  const vimeo = url.match(VIMEO_ID);
+  if (vimeo) {
+    const hash = vimeo[2] ?? vimeo[3];
+    return {
+      provider: 'vimeo',
+      src: `https://player.vimeo.com/video/${vimeo[1]}${hash ? `?h=${hash}` : ''}`,
+      origin: 'https://player.vimeo.com',
+    };
+  }
+
+  return null;
+};
+
+// The messages that seek the player to `seconds` and start playback
+export const seekMessages = (embed: MediaEmbed, seconds: number): string[] =>
+  embed.provider === 'youtube'
+    ? [
+        JSON.stringify({ event: 'command', func: 'seekTo', args: [seconds, true] }),
+        JSON.stringify({ event: 'command', func: 'playVideo', args: [] }),
+      ]
+    : [
+        JSON.stringify({ method: 'setCurrentTime', value: seconds }),
+        JSON.stringify({ method: 'play' }),
+      ];
@@ -0,0 +1,109 @@
+import type { Worker } from 'tesseract.js';
+
+// Text recognition for scanned PDFs and photos of documents, run in the
+// browser with tesseract.js. PDF pages are rendered to a canvas with pdf.js
+// first. Both libraries are loaded on first use; tesseract.js also downloads
+// its engine and English language data then.
+
+export interface OcrPage {
+  page: number;
+  // Tesseract's mean word confidence for the page, 0-100
+  confidence: number;
+  characters: number;
+}
+
+export interface OcrReport {
+  pages: OcrPage[];
+  // Mean of the page confidences, weighted by how much text each page had
+  confidence: number;
+  // Pages left out because the document was longer than MAX_OCR_PAGES
+  skippedPages: number;
+}
+
+export interface OcrResult {
+  text: string;
+  report: OcrReport;
+}
+
+export type OcrProgressHandler = (completedPages: number, totalPages: number) => void;
+
+// Recognition takes several seconds a page, so long scans are cut off
+export const MAX_OCR_PAGES = 30;
+// Below this confidence a page is likely to have misread words
+export const LOW_OCR_CONFIDENCE = 70;
+// Render scale for PDF pages; tesseract reads small print poorly at 1x
+const PDF_RENDER_SCALE = 2;
+
+const createOcrWorker = async (): Promise<Worker> => {
+  const { createWorker } = await import('tesseract.js');
+  return createWorker('eng');
+};
+
+const summarizeReport = (pages: OcrPage[], skippedPages: number): OcrReport => {
+  const characters = pages.reduce((sum, page) => sum + page.characters, 0);
+  const confidence = characters > 0
+    ? pages.reduce((sum, page) => sum + page.confidence * page.characters, 0) / characters
+    : 0;
+  return { pages, confidence: Math.round(confidence), skippedPages };
+};
+
+const recognizePage = async (worker: Worker, image: Parameters<Worker['recognize']>[0], page: number) => {
+  const { data } = await worker.recognize(image);
+  const text = data.text.trim();
+  console.log(`OCR page ${page}: ${text.length} characters, confidence ${Math.round(data.confidence)}`);
+  return { text, page: { page, confidence: Math.round(data.confidence), characters: text.length } };
+};
+
+export const ocrImage = async (image: Blob): Promise<OcrResult> => {
+  const worker = await createOcrWorker();
+  try {
+    const { text, page } = await recognizePage(worker, image, 1);
+    return { text, report: summarizeReport([page], 0) };
+  } finally {
+    await worker.terminate();
+  }
+};
+
+// Pages of longer PDFs are joined with a "[Page N]" line before each, the
+// marker the reference viewer reads page numbers from
+export const ocrPdf = async (data: ArrayBuffer, onProgress?: OcrProgressHandler): Promise<OcrResult> => {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  // pdf.js takes ownership of the buffer it is given
+  const pdf = await pdfjs.getDocument({ data: data.slice(0) }).promise;
+  const worker = await createOcrWorker();
+  const documentPages = pdf.numPages;
+  const totalPages = Math.min(documentPages, MAX_OCR_PAGES);
+  const parts: string[] = [];
+  const pages: OcrPage[] = [];
+
+  try {
+    onProgress?.(0, totalPages);
+    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      page.cleanup();
+
+      const result = await recognizePage(worker, canvas, pageNum);
+      parts.push(documentPages > 1 ? `[Page ${pageNum}]\n${result.text}` : result.text);
+      pages.push(result.page);
+      onProgress?.(pageNum, totalPages);
+    }
+  } finally {
+    await worker.terminate();
+    await pdf.destroy();
+  }
+
+  return {
+    text: parts.join('\n\n'),
+    report: summarizeReport(pages, documentPages - totalPages),
+  };
+};
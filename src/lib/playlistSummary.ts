@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { PlaylistVideoSummary, Summary, SummaryOptions } from "@/types/summary";
+import { fetchYouTubePlaylist, fetchYouTubeTranscript, type YouTubePlaylist } from "@/lib/sourceContent";
+import { parseSummary } from "@/lib/summarySchema";
+
+// Digests of a YouTube playlist or channel: every video is summarized on its
+// own, then summarize-content rolls the video summaries up into one summary
+// whose points link back to the videos they came from.
+
+// Videos summarized at the same time; long ones add their own chapter requests
+const VIDEO_CONCURRENCY = 2;
+
+export interface PlaylistDigest {
+  summary: Summary;
+  // The per-video summaries as one document, which the roll-up's references point into
+  content: string;
+  playlist: YouTubePlaylist;
+}
+
+// supabase.functions.invoke hides the response body behind a generic message
+const invokeSummarize = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('summarize-content', { body });
+  if (error) {
+    const response = await (error as { context?: Response }).context?.json().catch(() => null);
+    throw new Error(response?.error ?? 'Failed to generate summary');
+  }
+  return data;
+};
+
+const summarizeVideo = async (
+  video: YouTubePlaylist['videos'][number],
+  options?: SummaryOptions
+): Promise<PlaylistVideoSummary> => {
+  try {
+    const { text, timeline, chapters } = await fetchYouTubeTranscript(video.url);
+    const data = await invokeSummarize({ content: text, url: video.url, options, timeline, chapters });
+    const summary = parseSummary(data.summary);
+    return { title: video.title, url: video.url, summary: summary.summary, bulletPoints: summary.bulletPoints };
+  } catch (error) {
+    console.error('Failed to summarize playlist video:', video.url, error);
+    return {
+      title: video.title,
+      url: video.url,
+      summary: '',
+      bulletPoints: [],
+      error: error instanceof Error ? error.message : 'Failed to summarize',
+    };
+  }
+};
+
+export const summarizePlaylist = async (
+  url: string,
+  options: SummaryOptions | undefined,
+  handlers: {
+    onPlaylist?: (playlist: YouTubePlaylist) => void;
+    onProgress?: (completed: number, total: number) => void;
+  } = {},
+  signal?: AbortSignal
+): Promise<PlaylistDigest> => {
+  const playlist = await fetchYouTubePlaylist(url);
+  handlers.onPlaylist?.(playlist);
+
+  const videos: PlaylistVideoSummary[] = new Array(playlist.videos.length);
+  let next = 0;
+  let completed = 0;
+  const worker = async () => {
+    while (next < playlist.videos.length) {
+      signal?.throwIfAborted();
+      const index = next++;
+      videos[index] = await summarizeVideo(playlist.videos[index], options);
+      handlers.onProgress?.(++completed, playlist.videos.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(VIDEO_CONCURRENCY, playlist.videos.length) }, worker));
+  signal?.throwIfAborted();
+
+  if (videos.every(video => video.error)) {
+    throw new Error(`None of the ${videos.length} videos could be summarized. ${videos[0]?.error ?? ''}`.trim());
+  }
+
+  const data = await invokeSummarize({
+    mode: 'playlist',
+    playlist: { title: playlist.title, url: playlist.url },
+    videos,
+    options,
+  });
+  return { summary: parseSummary(data.summary), content: data.content ?? '', playlist };
+};
@@ -0,0 +1,118 @@
+import type { PromptTemplate } from "@/types/summary";
+
+// Templates are personal recipes, so they live in this browser rather than
+// in the summary history.
+
+export interface SavedPromptTemplate extends PromptTemplate {
+  id: string;
+  // Built-in templates can be duplicated but not edited or deleted
+  builtIn?: boolean;
+}
+
+const STORAGE_KEY = 'summary-prompt-templates';
+
+export const TEMPLATE_VARIABLES = ['content', 'url', 'language'] as const;
+
+const VARIABLE_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+
+export const BUILT_IN_TEMPLATES: SavedPromptTemplate[] = [
+  {
+    id: 'builtin-action-items',
+    name: 'Action items and owners',
+    prompt: 'List every action item in the content below. For each one, say what needs to be done, who owns it (or "Unassigned") and any deadline that is mentioned. Write in {{language}}.\n\n{{content}}',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-claims-evidence',
+    name: 'Claims with evidence',
+    prompt: 'Identify the main claims made in the content below and the evidence offered for each one. Mark claims that have no supporting evidence. Write in {{language}}.\n\nSource: {{url}}\n\n{{content}}',
+    outputSchema: {
+      type: 'object',
+      required: ['claims'],
+      properties: {
+        claims: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['claim', 'evidence', 'supported'],
+            properties: {
+              claim: { type: 'string' },
+              evidence: { type: 'string' },
+              supported: { type: 'boolean' },
+            },
+          },
+        },
+      },
+    },
+    builtIn: true,
+  },
+];
+
+const loadCustomTemplates = (): SavedPromptTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeCustomTemplates = (templates: SavedPromptTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const listPromptTemplates = (): SavedPromptTemplate[] => [
+  ...BUILT_IN_TEMPLATES,
+  ...loadCustomTemplates(),
+];
+
+export const savePromptTemplate = (template: Omit<SavedPromptTemplate, 'id' | 'builtIn'> & { id?: string }): SavedPromptTemplate => {
+  const templates = loadCustomTemplates();
+  const saved: SavedPromptTemplate = {
+    id: template.id ?? crypto.randomUUID(),
+    name: template.name.trim(),
+    prompt: template.prompt,
+    ...(template.outputSchema && { outputSchema: template.outputSchema }),
+  };
+  const index = templates.findIndex(t => t.id === saved.id);
+  if (index === -1) templates.push(saved);
+  else templates[index] = saved;
+  storeCustomTemplates(templates);
+  return saved;
+};
+
+export const deletePromptTemplate = (id: string) => {
+  storeCustomTemplates(loadCustomTemplates().filter(t => t.id !== id));
+};
+
+export const templateUsesVariable = (template: PromptTemplate, variable: typeof TEMPLATE_VARIABLES[number]) =>
+  Array.from(template.prompt.matchAll(VARIABLE_PATTERN)).some(match => match[1] === variable);
+
+// Parses the schema text typed in the template editor; empty means no schema
+export const parseOutputSchema = (text: string): Record<string, unknown> | undefined => {
+  if (!text.trim()) return undefined;
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch {
+    throw new Error('Output schema is not valid JSON');
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new Error('Output schema must be a JSON object');
+  }
+  return schema as Record<string, unknown>;
+};
+
+// Returns a message describing the first problem, or null when the template is usable
+export const validatePromptTemplate = (template: { name: string; prompt: string }): string | null => {
+  if (!template.name.trim()) return 'Give the template a name';
+  if (!template.prompt.trim()) return 'The prompt cannot be empty';
+
+  const unknown = Array.from(template.prompt.matchAll(VARIABLE_PATTERN))
+    .map(match => match[1])
+    .filter(name => !(TEMPLATE_VARIABLES as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    return `Unknown placeholder {{${unknown[0]}}}. Use ${TEMPLATE_VARIABLES.map(v => `{{${v}}}`).join(', ')}`;
+  }
+  return null;
+};
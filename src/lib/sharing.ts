@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Summary } from "@/types/summary";
+import { parseSummary } from "@/lib/summarySchema";
+
+export interface ShareTranslation {
+  language: string;
+  summary: Summary;
+}
+
+export interface CreateShareInput {
+  title: string;
+  sourceUrl?: string;
+  summary: Summary;
+  translation?: ShareTranslation;
+  // Left out unless the sharer opts in to publishing the source text
+  content?: string;
+  expiresInDays?: number;
+  password?: string;
+}
+
+export interface SharedSummary {
+  title: string;
+  sourceUrl: string | null;
+  summary: Summary;
+  translation: ShareTranslation | null;
+  content: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+// Matches the share-summary edge function
+export const MIN_SHARE_PASSWORD_LENGTH = 8;
+
+export const EXPIRY_OPTIONS: { value: string; label: string; days?: number }[] = [
+  { value: 'never', label: 'Never expires' },
+  { value: '1', label: 'After 1 day', days: 1 },
+  { value: '7', label: 'After 7 days', days: 7 },
+  { value: '30', label: 'After 30 days', days: 30 },
+];
+
+// Thrown when a share is password protected and no or the wrong password was given
+export class SharePasswordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SharePasswordError";
+  }
+}
+
+export class ShareNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareNotFoundError";
+  }
+}
+
+export const shareUrl = (id: string) => `${window.location.origin}/s/${id}`;
+
+// supabase.functions.invoke hides the response body behind a generic message
+const readInvokeError = async (error: unknown) => {
+  const response = (error as { context?: Response }).context;
+  const body = await response?.json().catch(() => null);
+  return { status: response?.status, body };
+};
+
+export const createShare = async (input: CreateShareInput): Promise<{ id: string; expiresAt: string | null }> => {
+  const { data, error } = await supabase.functions.invoke('share-summary', {
+    body: { action: 'create', ...input }
+  });
+  if (error) {
+    const { body } = await readInvokeError(error);
+    throw new Error(body?.error || 'Failed to create share link');
+  }
+  return data;
+};
+
+export const fetchSharedSummary = async (id: string, password?: string): Promise<SharedSummary> => {
+  const { data, error } = await supabase.functions.invoke('share-summary', {
+    body: { action: 'get', id, password }
+  });
+  if (error) {
+    const { status, body } = await readInvokeError(error);
+    if (body?.passwordRequired) throw new SharePasswordError(body.error);
+    if (status === 404) throw new ShareNotFoundError(body?.error || 'This link does not exist or has expired.');
+    throw new Error(body?.error || 'Failed to load shared summary');
+  }
+
+  const { share } = data;
+  return {
+    ...share,
+    summary: parseSummary(share.summary),
+    translation: share.translation
+      ? { language: share.translation.language, summary: parseSummary(share.translation.summary) }
+      : null,
+  };
+};
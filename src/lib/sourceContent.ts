@@ -0,0 +1,255 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { FetchErrorCode } from "../../supabase/functions/_shared/fetchErrors";
+import type { TimelineItem } from "../../supabase/functions/_shared/transcriptFormats";
+import type { VideoChapter } from "../../supabase/functions/_shared/videoChapters";
+import { parseYouTubeUrl } from "../../supabase/functions/_shared/youtubeUrls";
+
+export type { FetchErrorCode, TimelineItem, VideoChapter };
+
+// Turns a URL into the text that gets summarized: the transcript for YouTube,
+// Vimeo and podcast feed links, otherwise the page text plus transcripts of
+// embedded videos.
+
+// A single video: watch, youtu.be, /shorts/, /live/ and /embed/ links, also on
+// m. and music.youtube.com
+export const isYouTubeUrl = (url: string): boolean => parseYouTubeUrl(url)?.kind === 'video';
+
+// Playlists and channels, summarized video by video into a roll-up
+export const isYouTubeCollectionUrl = (url: string): boolean => {
+  const kind = parseYouTubeUrl(url)?.kind;
+  return kind === 'playlist' || kind === 'channel';
+};
+
+const isVimeoUrl = (url: string): boolean => /^https?:\/\/(www\.|player\.)?vimeo\.com\/(.*\/)?\d{5,}/i.test(url);
+
+// Feed URLs can't always be told apart from pages; the rest are found when
+// fetch-url-content refuses the feed's content type
+const isPodcastFeedUrl = (url: string): boolean =>
+  /\.(rss|xml)(\?|$)|\/(feed|rss)\/?(\?|$)|^https?:\/\/feeds?\./i.test(url);
+
+// Links whose content is a transcript from extract-media-transcript
+export const isMediaUrl = (url: string): boolean => isVimeoUrl(url) || isPodcastFeedUrl(url);
+
+const extractVideoUrls = (html: string, pageUrl: string): string[] => {
+  const videoUrls: string[] = [];
+  
+  // Extract YouTube embeds
+  const youtubeMatches = html.matchAll(/(?:youtube(?:-nocookie)?\.com\/(?:embed|shorts|live)\/|youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})/g);
+  for (const match of youtubeMatches) {
+    videoUrls.push(`https://www.youtube.com/watch?v=${match[1]}`);
+  }
+  
+  // Extract YouTube iframes
+  const iframeMatches = html.matchAll(/<iframe[^>]+src="([^"]*(?:youtube\.com|youtu\.be)[^"]*)"/gi);
+  for (const match of iframeMatches) {
+    const iframeSrc = match[1];
+    const videoIdMatch = iframeSrc.match(/(?:embed\/|watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})/);
+    if (videoIdMatch) {
+      videoUrls.push(`https://www.youtube.com/watch?v=${videoIdMatch[1]}`);
+    }
+  }
+
+  // Extract Vimeo players, keeping the hash unlisted videos need
+  const vimeoMatches = html.matchAll(/player\.vimeo\.com\/video\/(\d+)(?:\?(?:[^"'\s]*&(?:amp;)?)?h=([0-9a-f]+))?/gi);
+  for (const match of vimeoMatches) {
+    videoUrls.push(`https://player.vimeo.com/video/${match[1]}${match[2] ? `?h=${match[2]}` : ''}`);
+  }
+
+  // HTML5 videos with caption tracks are read from the page itself
+  if (/<video\b[\s\S]*?<track\b/i.test(html)) {
+    videoUrls.push(pageUrl);
+  }
+  
+  return [...new Set(videoUrls)]; // Remove duplicates
+};
+
+// A transcript and its timestamped cues; summarize-content uses the cues to
+// give each key point the moment it's spoken at, and the chapters (or topics
+// it detects in the cues) for a chapter outline
+export interface SourceTranscript {
+  text: string;
+  timeline: TimelineItem[];
+  chapters: VideoChapter[];
+}
+
+const toTranscript = (text: string, timeline: unknown, chapters?: unknown): SourceTranscript => ({
+  text,
+  timeline: Array.isArray(timeline) ? timeline as TimelineItem[] : [],
+  chapters: Array.isArray(chapters) ? chapters as VideoChapter[] : [],
+});
+
+// A caption track a YouTube video offers
+export interface CaptionLanguage {
+  code: string;
+  name: string;
+  isAuto: boolean;
+}
+
+export const listYouTubeCaptions = async (url: string): Promise<CaptionLanguage[]> => {
+  const { data, error } = await supabase.functions.invoke('youtube-transcript', {
+    body: { url, listOnly: true }
+  });
+  if (error) throw error;
+  return data?.availableLanguages ?? [];
+};
+
+// Without a caption track, English captions are preferred
+export const fetchYouTubeTranscript = async (url: string, caption?: CaptionLanguage): Promise<SourceTranscript> => {
+  const { data, error } = await supabase.functions.invoke('youtube-transcript', {
+    body: { url, lang: caption?.code ?? 'en', autoGenerated: caption?.isAuto }
+  });
+  if (error) {
+    const body = await (error as { context?: Response }).context?.json().catch(() => null);
+    if (body?.diagnostics) console.log('YouTube transcript strategies:', body.diagnostics);
+    throw new Error(body?.error ?? 'Failed to extract video transcript. The video may not have captions available.');
+  }
+  if (!data?.text) throw new Error('No transcript available');
+  console.log(`YouTube transcript via ${data.strategy} (${data.languageCode})`);
+
+  return toTranscript(data.text, data.timeline, data.chapters);
+};
+
+export interface YouTubePlaylist {
+  playlistId: string;
+  title: string;
+  url: string;
+  videos: Array<{ videoId: string; title: string; url: string }>;
+  // How many videos the playlist listed; only the first `videos.length` are summarized
+  totalVideos: number;
+}
+
+// The videos of a playlist, or of a channel's uploads
+export const fetchYouTubePlaylist = async (url: string): Promise<YouTubePlaylist> => {
+  const { data, error } = await supabase.functions.invoke('youtube-transcript', {
+    body: { url }
+  });
+  if (error) {
+    const body = await (error as { context?: Response }).context?.json().catch(() => null);
+    throw new Error(body?.error ?? 'Failed to list the videos of this playlist.');
+  }
+  if (!data?.playlist) throw new Error('No videos found');
+  return data.playlist;
+};
+
+// Vimeo text tracks, <video> caption tracks on a page, or a podcast feed's
+// newest episode transcript
+export const fetchMediaTranscript = async (url: string): Promise<SourceTranscript> => {
+  const { data, error } = await supabase.functions.invoke('extract-media-transcript', {
+    body: { url, lang: 'en' }
+  });
+  if (error) {
+    const body = await (error as { context?: Response }).context?.json().catch(() => null);
+    throw new Error(body?.error ?? 'Failed to extract the transcript.');
+  }
+  if (!data?.text) throw new Error('No transcript available');
+
+  const header = data.title ? `# ${data.title}\n\n` : '';
+  return toTranscript(header + data.text, data.timeline);
+};
+
+// Embedded videos only add their text to the page's
+const fetchVideoTranscript = async (url: string): Promise<string> =>
+  (isYouTubeUrl(url) ? await fetchYouTubeTranscript(url) : await fetchMediaTranscript(url)).text;
+
+const FETCH_ERROR_MESSAGES: Partial<Record<FetchErrorCode, string>> = {
+  INVALID_URL: "That doesn't look like a valid link. Please check the URL and try again.",
+  UNSUPPORTED_SCHEME: 'Only http:// and https:// links can be summarized.',
+  BLOCKED_ADDRESS: "This link points to a private or internal address and can't be fetched.",
+  DNS_FAILED: "The site's address could not be found. Check the link for typos.",
+  TOO_MANY_REDIRECTS: 'The link redirects too many times to follow.',
+  TIMEOUT: 'The site took too long to respond. Please try again later.',
+  TOO_LARGE: 'The page is too large to summarize.',
+  UNSUPPORTED_CONTENT_TYPE: "This link doesn't point to a web page. Download the file and upload it on the File tab instead.",
+};
+
+export class FetchUrlError extends Error {
+  constructor(public code: FetchErrorCode, message: string) {
+    super(message);
+    this.name = 'FetchUrlError';
+  }
+}
+
+// supabase.functions.invoke hides the response body behind a generic message
+const toFetchUrlError = async (error: unknown): Promise<FetchUrlError> => {
+  const body = await (error as { context?: Response }).context?.json().catch(() => null);
+  const code: FetchErrorCode = body?.code ?? 'UPSTREAM_ERROR';
+  return new FetchUrlError(
+    code,
+    FETCH_ERROR_MESSAGES[code] ?? body?.error ?? 'Failed to fetch URL content. Please check the URL and try again.'
+  );
+};
+
+interface ArticleMetadata {
+  title?: string | null;
+  byline?: string | null;
+  publishedAt?: string | null;
+}
+
+// The page's title, author and date go first so the summary can mention them
+const articleHeader = ({ title, byline, publishedAt }: ArticleMetadata): string => {
+  const details = [byline && `By ${byline}`, publishedAt && `Published ${publishedAt}`].filter(Boolean).join(' · ');
+  return [title && `# ${title}`, details].filter(Boolean).join('\n') + (title || details ? '\n\n' : '');
+};
+
+export interface FetchUrlOptions {
+  // Follow "next page" links up to this many pages in total
+  maxPages?: number;
+  onPagesFetched?: (count: number) => void;
+}
+
+export const fetchUrlContent = async (
+  url: string,
+  onVideosFound?: (count: number) => void,
+  { maxPages, onPagesFetched }: FetchUrlOptions = {}
+): Promise<string> => {
+  try {
+    // Use edge function to fetch URL content (bypasses CORS)
+    const { data, error } = await supabase.functions.invoke('fetch-url-content', {
+      body: { url, maxPages }
+    });
+
+    if (error) throw await toFetchUrlError(error);
+    if (!data?.text) throw new Error('No content returned');
+
+    const html: string = data.html ?? '';
+    if (Array.isArray(data.pages) && data.pages.length > 1) onPagesFetched?.(data.pages.length);
+    
+    // Check for embedded videos
+    const videoUrls = extractVideoUrls(html, data.url ?? url);
+    let videoTranscripts = '';
+    
+    if (videoUrls.length > 0) {
+      onVideosFound?.(videoUrls.length);
+      
+      for (const videoUrl of videoUrls.slice(0, 3)) { // Limit to first 3 videos
+        try {
+          const transcript = await fetchVideoTranscript(videoUrl);
+          videoTranscripts += `\n\nVideo Transcript:\n${transcript}\n`;
+        } catch (error) {
+          console.log('Failed to extract transcript from embedded video:', videoUrl);
+        }
+      }
+    }
+    
+    const pageText = articleHeader(data) + data.text;
+    
+    // Combine page text with video transcripts; long content is chunked by the summarizer
+    return pageText + videoTranscripts;
+  } catch (error) {
+    // Podcast feeds aren't pages; they may still have a transcript
+    if (error instanceof FetchUrlError && error.code === 'UNSUPPORTED_CONTENT_TYPE') {
+      return fetchMediaTranscript(url).then(transcript => transcript.text, () => { throw error; });
+    }
+    if (error instanceof FetchUrlError) throw error;
+    throw new Error('Failed to fetch URL content. Please check the URL and try again.');
+  }
+};
+
+export const fetchSourceContent = async (url: string, onVideosFound?: (count: number) => void): Promise<string> => {
+  if (isYouTubeCollectionUrl(url)) {
+    throw new Error('Playlists and channels can only be summarized on their own, from the home page.');
+  }
+  return isYouTubeUrl(url) ? (await fetchYouTubeTranscript(url)).text
+    : isMediaUrl(url) ? (await fetchMediaTranscript(url)).text
+    : fetchUrlContent(url, onVideosFound);
+};
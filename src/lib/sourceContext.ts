@@ -0,0 +1,200 @@
+import type { SummaryChunk } from "@/types/summary";
+
+// Extract meaningful propositions (phrases) from a bullet point so they can be
+// highlighted in the surrounding source text
+export const extractPropositions = (bulletPoint: string): string[] => {
+  const propositions = bulletPoint
+    .split(/[;:,]/)
+    .map(phrase => phrase.trim())
+    .filter(phrase => phrase.length > 15)
+    .map(phrase => {
+      return phrase.replace(/^(the|a|an|and|or|but|however|therefore|this|these|that|those)\s+/i, '').trim();
+    })
+    .filter(phrase => phrase.length > 10);
+  
+  // If no good propositions found, extract key noun phrases
+  if (propositions.length === 0) {
+    const words = bulletPoint.split(/\s+/);
+    for (let i = 0; i < words.length - 2; i++) {
+      const phrase = words.slice(i, Math.min(i + 5, words.length)).join(' ');
+      if (phrase.length > 15) {
+        propositions.push(phrase);
+      }
+    }
+  }
+
+  return propositions;
+};
+
+// Finds where a reference quote starts in the source, trying progressively
+// looser strategies. When the summary was chunked, the chunk the point was
+// generated from is searched first. Returns -1 when nothing matches.
+export const locateReference = (content: string, referenceText: string, chunk?: SummaryChunk): number => {
+  const searchRanges = chunk
+    ? [{ start: chunk.start, end: chunk.end }, { start: 0, end: content.length }]
+    : [{ start: 0, end: content.length }];
+  const findInRanges = (needle: string, ignoreCase = false): number => {
+    for (const range of searchRanges) {
+      const haystack = content.slice(range.start, range.end);
+      const idx = ignoreCase
+        ? haystack.toLowerCase().indexOf(needle.toLowerCase())
+        : haystack.indexOf(needle);
+      if (idx !== -1) return range.start + idx;
+    }
+    return -1;
+  };
+
+  let referenceIndex = findInRanges(referenceText);
+  if (referenceIndex === -1) {
+    // Try with first 80 chars
+    const partialRef = referenceText.slice(0, Math.min(80, referenceText.length));
+    referenceIndex = findInRanges(partialRef);
+  }
+  if (referenceIndex === -1) {
+    // Try searching for key words from reference
+    const refWords = referenceText.split(/\s+/).filter(w => w.length > 4);
+    for (const word of refWords.slice(0, 5)) {
+      const idx = findInRanges(word, true);
+      if (idx !== -1) {
+        referenceIndex = idx;
+        break;
+      }
+    }
+  }
+
+  return referenceIndex;
+};
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+// The exact span a bullet point's reference covers: its verified offsets when
+// the edge function provided them, otherwise a literal match of the quote.
+// Unlike locateReference this never guesses from keywords.
+export const resolveReferenceSpan = (
+  content: string,
+  bulletPoint: { reference: string; start?: number; end?: number },
+  chunk?: SummaryChunk
+): SourceSpan | null => {
+  const { reference, start, end } = bulletPoint;
+  if (start !== undefined && end !== undefined && start < end && end <= content.length) {
+    return { start, end };
+  }
+  const quote = reference.trim();
+  if (!quote) return null;
+  const inChunk = chunk ? content.slice(chunk.start, chunk.end).indexOf(quote) : -1;
+  const index = inChunk !== -1 ? chunk!.start + inChunk : content.indexOf(quote);
+  return index === -1 ? null : { start: index, end: index + quote.length };
+};
+
+// `passage` is the exact source text of a verified span, for highlighting it
+// instead of guessing from propositions
+export const getExpandedContext = (
+  content: string,
+  bulletPoint: string,
+  referenceText: string,
+  chunk?: SummaryChunk,
+  span?: SourceSpan
+): { text: string; propositions: string[]; passage?: string } => {
+  const propositions = extractPropositions(bulletPoint);
+  // Offsets are only trusted if they still fit the content they were made for
+  const verified = span && span.start < span.end && span.end <= content.length ? span : undefined;
+  if (verified) referenceText = content.slice(verified.start, verified.end);
+  const referenceIndex = verified ? verified.start : locateReference(content, referenceText, chunk);
+
+  // If not found, return the reference with a warning
+  if (referenceIndex === -1) {
+    return { 
+      text: `Reference text: "${referenceText}"\n\n(Note: Could not locate exact reference in original content)`, 
+      propositions 
+    };
+  }
+  
+  // Start with a larger context window around the reference
+  const minWords = 200; // Minimum words to display
+  let contextWindow = 2000; // Start with larger window
+  let expandedContent = '';
+  
+  // Try to get context with increasing window sizes until we have enough words
+  while (expandedContent.split(/\s+/).length < minWords && contextWindow <= 8000) {
+    const start = Math.max(0, referenceIndex - contextWindow);
+    const end = Math.min(content.length, referenceIndex + referenceText.length + contextWindow);
+    expandedContent = content.slice(start, end).trim();
+    
+    if (expandedContent.split(/\s+/).length < minWords) {
+      contextWindow += 1000; // Increase window
+    } else {
+      break;
+    }
+    
+    // Add ellipsis if truncated
+    if (start > 0) expandedContent = '...' + expandedContent;
+    if (end < content.length) expandedContent = expandedContent + '...';
+  }
+  
+  // If we still don't have enough content, search for additional relevant paragraphs
+  if (expandedContent.split(/\s+/).length < minWords) {
+    const paragraphs = content.split(/\n\n+/);
+    const relevantParagraphs: Array<{text: string, score: number}> = [];
+    
+    for (const paragraph of paragraphs) {
+      if (paragraph.length < 50) continue; // Skip very short paragraphs
+      
+      let score = 0;
+      const paragraphLower = paragraph.toLowerCase();
+      
+      // Score based on proposition matches
+      for (const proposition of propositions) {
+        const propWords = proposition.toLowerCase().split(/\s+/).filter(w => w.length > 3);
+        let matchCount = 0;
+        for (const word of propWords) {
+          if (paragraphLower.includes(word)) matchCount++;
+        }
+        if (matchCount > propWords.length * 0.4) {
+          score += matchCount;
+        }
+      }
+      
+      // Also score based on reference text words
+      const refWords = referenceText.toLowerCase().split(/\s+/).filter(w => w.length > 4);
+      for (const word of refWords) {
+        if (paragraphLower.includes(word)) score += 1;
+      }
+      
+      if (score > 0) {
+        relevantParagraphs.push({ text: paragraph, score });
+      }
+    }
+    
+    // Sort by score and add top paragraphs
+    relevantParagraphs.sort((a, b) => b.score - a.score);
+    const topParagraphs = relevantParagraphs.slice(0, 5).map(p => p.text);
+    
+    if (topParagraphs.length > 0) {
+      expandedContent += '\n\n---\n\nAdditional relevant context:\n\n' + topParagraphs.join('\n\n---\n\n');
+    }
+  }
+  
+  // Limit to 500 words maximum
+  const words = expandedContent.split(/\s+/);
+  if (words.length > 500) {
+    expandedContent = words.slice(0, 500).join(' ') + '...';
+  }
+  
+  return { text: expandedContent, propositions, passage: verified ? referenceText : undefined };
+};
+
+// Multi-page articles, PDFs and OCR'd scans have a "[Page N]" line before each page
+const PAGE_MARKER = /^\[Page (\d+)\]$/gm;
+
+// The page a source offset falls on, or null for content without page markers
+export const pageAtOffset = (content: string, offset: number): number | null => {
+  let page: number | null = null;
+  for (const match of content.matchAll(PAGE_MARKER)) {
+    if (match.index! > offset) break;
+    page = Number(match[1]);
+  }
+  return page;
+};
@@ -0,0 +1,317 @@
+import { format } from "date-fns";
+import { jsPDF } from "jspdf";
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import type { Summary } from "@/types/summary";
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'docx';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: 'markdown', label: 'Markdown', extension: 'md' },
+  { value: 'pdf', label: 'PDF', extension: 'pdf' },
+  { value: 'docx', label: 'Word (DOCX)', extension: 'docx' },
+  { value: 'html', label: 'HTML', extension: 'html' },
+];
+
+export interface SummaryExport {
+  title: string;
+  summary: Summary;
+  sourceUrl?: string;
+  generatedAt: Date;
+  // Shown next to the original when the summary has been translated
+  translation?: { language: string; summary: Summary };
+}
+
+// One entry per column: the original, then the translation if there is one
+const versions = (data: SummaryExport) => [
+  { label: 'Original', summary: data.summary },
+  ...(data.translation ? [{ label: data.translation.language, summary: data.translation.summary }] : []),
+];
+
+const formatDate = (date: Date) => format(date, 'PPP p');
+
+const metadataLines = (data: SummaryExport) => [
+  ...(data.sourceUrl ? [`Source: ${data.sourceUrl}`] : []),
+  `Generated: ${formatDate(data.generatedAt)}`,
+];
+
+export const exportFileName = (title: string, extension: string) => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'summary'}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Markdown tables can't hold line breaks or pipes
+const tableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+export const toMarkdown = (data: SummaryExport): string => {
+  const lines = [`# ${data.title}`, '', ...metadataLines(data).map(line => `- ${line}`), ''];
+
+  if (data.translation) {
+    const columns = versions(data);
+    const row = (cells: string[]) => `| ${cells.map(tableCell).join(' | ')} |`;
+    lines.push(
+      '## Overview', '',
+      row(columns.map(c => c.label)),
+      row(columns.map(() => '---')),
+      row(columns.map(c => c.summary.summary)),
+      '', '## Key points', '',
+      row(['#', ...columns.map(c => c.label)]),
+      row(['---', ...columns.map(() => '---')]),
+      ...data.summary.bulletPoints.map((_, i) => row([
+        String(i + 1),
+        ...columns.map(c => {
+          const bp = c.summary.bulletPoints[i];
+          if (!bp) return '';
+          return bp.reference ? `${bp.point}<br>_"${bp.reference}"_` : bp.point;
+        }),
+      ])),
+    );
+  } else {
+    lines.push('## Overview', '', data.summary.summary, '', '## Key points', '');
+    data.summary.bulletPoints.forEach((bp, i) => {
+      lines.push(`${i + 1}. ${bp.point}`);
+      if (bp.reference) lines.push(`   > "${bp.reference}"`);
+      lines.push('');
+    });
+  }
+
+  return lines.join('\n').trim() + '\n';
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1f2937; max-width: 960px; margin: 40px auto; padding: 0 24px; line-height: 1.6; }
+  h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 0.85rem; text-transform: uppercase; letter-spacing: 0.08em; color: #6b7280; margin-top: 2rem; }
+  h3 { font-size: 0.9rem; color: #6b7280; margin: 0 0 0.5rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; margin: 0; }
+  .meta a { color: inherit; }
+  .columns { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 32px; }
+  .overview { font-size: 1.1rem; }
+  ol { padding-left: 1.5rem; }
+  li { margin-bottom: 1rem; }
+  blockquote { margin: 0.25rem 0 0; padding-left: 0.75rem; border-left: 2px solid #d1d5db; color: #6b7280; font-style: italic; font-size: 0.9rem; }
+`;
+
+const htmlVersion = (label: string | null, summary: Summary) => `
+    <section>
+      ${label ? `<h3>${escapeHtml(label)}</h3>` : ''}
+      <h2>Overview</h2>
+      <p class="overview">${escapeHtml(summary.summary)}</p>
+      <h2>Key points</h2>
+      <ol>
+${summary.bulletPoints.map(bp => `        <li>${escapeHtml(bp.point)}${bp.reference ? `<blockquote>"${escapeHtml(bp.reference)}"</blockquote>` : ''}</li>`).join('\n')}
+      </ol>
+    </section>`;
+
+export const toHtml = (data: SummaryExport): string => {
+  const columns = versions(data);
+  const source = data.sourceUrl
+    ? `<p class="meta">Source: <a href="${escapeHtml(data.sourceUrl)}">${escapeHtml(data.sourceUrl)}</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(data.title)}</title>
+  <style>${HTML_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(data.title)}</h1>
+  ${source}
+  <p class="meta">Generated: ${escapeHtml(formatDate(data.generatedAt))}</p>
+  <div class="columns">${columns.map(c => htmlVersion(data.translation ? c.label : null, c.summary)).join('')}
+  </div>
+</body>
+</html>
+`;
+};
+
+// jsPDF's built-in fonts only cover Latin-1, so summaries in other scripts
+// are better exported as HTML or DOCX and printed from there
+export const toPdf = (data: SummaryExport): Blob => {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const margin = 48;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const columns = versions(data);
+  const gap = 24;
+  const columnWidth = (pageWidth - margin * 2 - gap * (columns.length - 1)) / columns.length;
+  let y = margin;
+
+  const currentPage = () => doc.getCurrentPageInfo().pageNumber;
+
+  // Side-by-side columns may already have created the next page
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      if (currentPage() < doc.getNumberOfPages()) doc.setPage(currentPage() + 1);
+      else doc.addPage();
+      y = margin;
+    }
+  };
+
+  const write = (text: string, options: { size: number; style?: string; color?: number; width?: number; x?: number }) => {
+    doc.setFont('helvetica', options.style ?? 'normal');
+    doc.setFontSize(options.size);
+    doc.setTextColor(options.color ?? 31);
+    const lines: string[] = doc.splitTextToSize(text, options.width ?? pageWidth - margin * 2);
+    const lineHeight = options.size * 1.4;
+    lines.forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, options.x ?? margin, y + options.size);
+      y += lineHeight;
+    });
+  };
+
+  // Lays out one block per column next to each other, starting on the same line
+  const writeRow = (cells: Array<(x: number) => void>) => {
+    const top = y;
+    const page = currentPage();
+    let bottom = top;
+    let lastPage = page;
+    cells.forEach((cell, i) => {
+      doc.setPage(page);
+      y = top;
+      cell(margin + i * (columnWidth + gap));
+      const cellPage = currentPage();
+      if (cellPage > lastPage || (cellPage === lastPage && y > bottom)) {
+        lastPage = cellPage;
+        bottom = y;
+      }
+    });
+    doc.setPage(lastPage);
+    y = bottom;
+  };
+
+  const heading = (text: string) => {
+    y += 12;
+    ensureSpace(40);
+    write(text.toUpperCase(), { size: 10, style: 'bold', color: 107 });
+    y += 4;
+  };
+
+  write(data.title, { size: 20, style: 'bold' });
+  y += 4;
+  metadataLines(data).forEach(line => write(line, { size: 10, color: 107 }));
+
+  if (data.translation) {
+    y += 12;
+    writeRow(columns.map(c => (x: number) => write(c.label, { size: 11, style: 'bold', color: 107, width: columnWidth, x })));
+  }
+
+  heading('Overview');
+  writeRow(columns.map(c => (x: number) => write(c.summary.summary, { size: 12, width: columnWidth, x })));
+
+  heading('Key points');
+  data.summary.bulletPoints.forEach((_, i) => {
+    ensureSpace(48);
+    writeRow(columns.map(c => (x: number) => {
+      const bp = c.summary.bulletPoints[i];
+      if (!bp) return;
+      write(`${i + 1}. ${bp.point}`, { size: 11, style: 'bold', width: columnWidth, x });
+      if (bp.reference) {
+        write(`"${bp.reference}"`, { size: 9, style: 'italic', color: 107, width: columnWidth - 12, x: x + 12 });
+      }
+    }));
+    y += 10;
+  });
+
+  return doc.output('blob');
+};
+
+const docxVersion = (summary: Summary): Paragraph[] => [
+  new Paragraph({ text: 'Overview', heading: HeadingLevel.HEADING_2 }),
+  new Paragraph({ children: [new TextRun(summary.summary)], spacing: { after: 200 } }),
+  new Paragraph({ text: 'Key points', heading: HeadingLevel.HEADING_2 }),
+  ...summary.bulletPoints.flatMap((bp, i) => [
+    new Paragraph({ children: [new TextRun({ text: `${i + 1}. `, bold: true }), new TextRun({ text: bp.point, bold: true })], spacing: { before: 120 } }),
+    ...(bp.reference
+      ? [new Paragraph({ children: [new TextRun({ text: `"${bp.reference}"`, italics: true, color: '6B7280' })], indent: { left: 360 } })]
+      : []),
+  ]),
+];
+
+const NO_BORDER = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+
+export const toDocx = async (data: SummaryExport): Promise<Blob> => {
+  const columns = versions(data);
+  const body = data.translation
+    ? [
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER, insideHorizontal: NO_BORDER, insideVertical: NO_BORDER },
+          rows: [
+            new TableRow({
+              children: columns.map(c => new TableCell({
+                width: { size: Math.floor(100 / columns.length), type: WidthType.PERCENTAGE },
+                margins: { right: 240 },
+                children: [
+                  new Paragraph({ children: [new TextRun({ text: c.label, bold: true, color: '6B7280' })] }),
+                  ...docxVersion(c.summary),
+                ],
+              })),
+            }),
+          ],
+        }),
+      ]
+    : docxVersion(data.summary);
+
+  const doc = new Document({
+    title: data.title,
+    sections: [{
+      children: [
+        new Paragraph({ text: data.title, heading: HeadingLevel.TITLE }),
+        ...metadataLines(data).map(line =>
+          new Paragraph({ children: [new TextRun({ text: line, color: '6B7280', size: 20 })], alignment: AlignmentType.LEFT })
+        ),
+        ...body,
+      ],
+    }],
+  });
+
+  return Packer.toBlob(doc);
+};
+
+export const exportSummary = async (exportFormat: ExportFormat, data: SummaryExport) => {
+  const extension = EXPORT_FORMATS.find(f => f.value === exportFormat)!.extension;
+  const fileName = exportFileName(data.title, extension);
+
+  switch (exportFormat) {
+    case 'markdown':
+      downloadBlob(new Blob([toMarkdown(data)], { type: 'text/markdown' }), fileName);
+      break;
+    case 'html':
+      downloadBlob(new Blob([toHtml(data)], { type: 'text/html' }), fileName);
+      break;
+    case 'pdf':
+      downloadBlob(toPdf(data), fileName);
+      break;
+    case 'docx':
+      downloadBlob(await toDocx(data), fileName);
+      break;
+  }
+};
@@ -0,0 +1,170 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { Summary } from "@/types/summary";
+import { parseSummary } from "@/lib/summarySchema";
+
+export type SourceType = 'url' | 'text' | 'file';
+
+export interface SummaryHistoryEntry extends Omit<Tables<'summaries'>, 'summary' | 'translations' | 'source_type'> {
+  source_type: SourceType;
+  summary: Summary;
+  translations: Record<string, Summary>;
+}
+
+export type HistoryStorage = 'cloud' | 'local';
+
+export interface HistorySettings {
+  // Nothing is saved unless this is switched on
+  enabled: boolean;
+  // 'local' keeps encrypted entries in this browser's IndexedDB only
+  storage: HistoryStorage;
+  // Source text is only kept when asked for; it is needed to re-run text and file summaries
+  storeContent: boolean;
+}
+
+const SETTINGS_KEY = 'summary-history-settings';
+
+export const getHistorySettings = (): HistorySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      enabled: stored.enabled === true,
+      // Settings saved before local history existed always meant the cloud;
+      // new users start with the browser-only store
+      storage: stored.storage ?? (stored.enabled === undefined ? 'local' : 'cloud'),
+      storeContent: stored.storeContent === true,
+    };
+  } catch {
+    return { enabled: false, storage: 'local', storeContent: false };
+  }
+};
+
+export const saveHistorySettings = (settings: HistorySettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// History rows are scoped to an anonymous auth user so they stay private
+// without asking for an account
+const ensureSession = async () => {
+  const { data } = await supabase.auth.getSession();
+  if (data.session) return data.session;
+
+  const { data: signInData, error } = await supabase.auth.signInAnonymously();
+  if (error) throw error;
+  return signInData.session;
+};
+
+export const hashContent = async (content: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const buildHistoryTitle = (summary: Summary, sourceUrl?: string, sourceName?: string): string => {
+  if (sourceName) return sourceName;
+  if (sourceUrl) {
+    try {
+      const url = new URL(sourceUrl);
+      return `${url.hostname}${url.pathname === '/' ? '' : url.pathname}`;
+    } catch {
+      return sourceUrl;
+    }
+  }
+  const overview = summary.summary.trim();
+  return overview.length > 60 ? `${overview.slice(0, 60)}...` : overview || summary.template?.name || 'Untitled summary';
+};
+
+const toEntry = (row: Tables<'summaries'>): SummaryHistoryEntry => ({
+  ...row,
+  source_type: row.source_type as SourceType,
+  summary: parseSummary(row.summary),
+  translations: Object.fromEntries(
+    Object.entries(row.translations ?? {}).map(([language, translated]) => [language, parseSummary(translated)])
+  ),
+});
+
+export const saveToHistory = async (input: {
+  sourceType: SourceType;
+  sourceUrl?: string;
+  sourceName?: string;
+  content: string;
+  summary: Summary;
+}): Promise<SummaryHistoryEntry> => {
+  await ensureSession();
+  const { storeContent } = getHistorySettings();
+
+  const { data, error } = await supabase
+    .from('summaries')
+    .insert({
+      title: buildHistoryTitle(input.summary, input.sourceUrl, input.sourceName),
+      source_type: input.sourceType,
+      source_url: input.sourceUrl || null,
+      source_name: input.sourceName || null,
+      content_hash: await hashContent(input.content),
+      original_content: storeContent ? input.content : null,
+      summary: input.summary as unknown as Json,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toEntry(data);
+};
+
+export const listHistory = async (): Promise<SummaryHistoryEntry[]> => {
+  await ensureSession();
+  const { data, error } = await supabase
+    .from('summaries')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(toEntry);
+};
+
+export const getHistoryEntry = async (id: string): Promise<SummaryHistoryEntry> => {
+  await ensureSession();
+  const { data, error } = await supabase
+    .from('summaries')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return toEntry(data);
+};
+
+export const renameHistoryEntry = async (id: string, title: string) => {
+  const { error } = await supabase.from('summaries').update({ title }).eq('id', id);
+  if (error) throw error;
+};
+
+export const deleteHistoryEntry = async (id: string) => {
+  const { error } = await supabase.from('summaries').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Re-running replaces the stored summary and drops translations of the old one
+export const replaceHistorySummary = async (id: string, content: string, summary: Summary) => {
+  const { storeContent } = getHistorySettings();
+  const { error } = await supabase
+    .from('summaries')
+    .update({
+      summary: summary as unknown as Json,
+      translations: {},
+      content_hash: await hashContent(content),
+      ...(storeContent ? { original_content: content } : {}),
+    })
+    .eq('id', id);
+  if (error) throw error;
+};
+
+export const saveHistoryTranslation = async (id: string, languageCode: string, translated: Summary) => {
+  const entry = await getHistoryEntry(id);
+  const { error } = await supabase
+    .from('summaries')
+    .update({ translations: { ...entry.translations, [languageCode]: translated } as unknown as Json })
+    .eq('id', id);
+  if (error) throw error;
+};
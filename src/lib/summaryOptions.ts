@@ -0,0 +1,32 @@
+import type { SummaryLength, SummaryOptions, SummaryStyle } from "@/types/summary";
+
+export const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = {
+  length: 'standard',
+  style: 'neutral',
+};
+
+export const LENGTH_OPTIONS: { value: SummaryLength; label: string }[] = [
+  { value: 'tldr', label: 'TL;DR' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'detailed', label: 'Detailed' },
+];
+
+export const STYLE_OPTIONS: { value: SummaryStyle; label: string }[] = [
+  { value: 'neutral', label: 'Neutral' },
+  { value: 'executive', label: 'Executive brief' },
+  { value: 'academic', label: 'Academic abstract' },
+  { value: 'eli5', label: 'Explain like I\'m 5' },
+];
+
+export const MAX_BULLET_COUNT = 20;
+
+export const describeSummaryOptions = (options: SummaryOptions): string[] => {
+  const labels = [
+    LENGTH_OPTIONS.find(o => o.value === options.length)?.label ?? options.length,
+    STYLE_OPTIONS.find(o => o.value === options.style)?.label ?? options.style,
+  ];
+  if (options.audience) labels.push(`For: ${options.audience}`);
+  if (options.bulletCount) labels.push(`${options.bulletCount} points`);
+  if (options.outputLanguage) labels.push(`In ${options.outputLanguage}`);
+  return labels;
+};
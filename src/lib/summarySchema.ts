@@ -0,0 +1,69 @@
+import type { Comparison, Summary } from "@/types/summary";
+import {
+  ComparisonSchema,
+  ModelSummarySchema,
+  OutputValidationError,
+  SummarySchema,
+  formatIssues,
+  parseModelJson,
+} from "../../supabase/functions/_shared/summarySchema";
+
+// The schemas live next to the edge functions so both sides validate model
+// output against the same definition.
+export {
+  BulletPointSchema,
+  ComparisonSchema,
+  DocumentAnswerSchema,
+  HttpUrlSchema,
+  ModelSummarySchema,
+  OutputValidationError,
+  SummarySchema,
+  formatIssues,
+  isHttpUrl,
+  parseModelJson,
+  type DocumentAnswer,
+} from "../../supabase/functions/_shared/summarySchema";
+
+export const parseSummary = (value: unknown): Summary => {
+  const result = SummarySchema.safeParse(value);
+  if (!result.success) {
+    throw new OutputValidationError("The summary returned by the server is invalid", formatIssues(result.error));
+  }
+  return result.data;
+};
+
+export const parseComparison = (value: unknown): Comparison => {
+  const result = ComparisonSchema.safeParse(value);
+  if (!result.success) {
+    throw new OutputValidationError("The comparison returned by the server is invalid", formatIssues(result.error));
+  }
+  return result.data;
+};
+
+// Only the text is sent for translation, so chunk indexes, options and
+// template details can't be altered by the translator
+export const toTranslatableSummary = (summary: Summary) => ({
+  summary: summary.summary,
+  bulletPoints: summary.bulletPoints.map(({ point, reference }) => ({ point, reference })),
+});
+
+export const parseTranslatedSummary = (text: string, original: Summary): Summary => {
+  const result = parseModelJson(text, ModelSummarySchema);
+  if (result.success === false) {
+    throw new OutputValidationError("The translated summary is invalid", result.issues);
+  }
+  if (result.data.bulletPoints.length !== original.bulletPoints.length) {
+    throw new OutputValidationError("The translated summary is invalid", [
+      `Expected ${original.bulletPoints.length} points but got ${result.data.bulletPoints.length}`,
+    ]);
+  }
+  return {
+    ...original,
+    summary: result.data.summary,
+    bulletPoints: original.bulletPoints.map((bp, i) => ({
+      ...bp,
+      point: result.data.bulletPoints[i].point,
+      reference: result.data.bulletPoints[i].reference,
+    })),
+  };
+};
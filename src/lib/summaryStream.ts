@@ -0,0 +1,95 @@
+import type { BulletPoint, PromptTemplate, Summary, SummaryOptions } from "@/types/summary";
+import { BulletPointSchema, parseSummary } from "@/lib/summarySchema";
+import type { TimelineItem, VideoChapter } from "@/lib/sourceContent";
+
+const SUMMARIZE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/summarize-content`;
+
+interface StreamSummaryHandlers {
+  onOverview?: (overview: string) => void;
+  onBulletPoint?: (bulletPoint: BulletPoint, index: number) => void;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// supabase.functions.invoke buffers the whole response, so the streaming mode
+// of summarize-content is read directly with fetch and parsed as SSE.
+export async function streamSummary(
+  body: {
+    content: string;
+    url?: string;
+    options?: SummaryOptions;
+    template?: PromptTemplate;
+    variables?: { language?: string };
+    // Transcript cues, for timestamping key points and chapter summaries
+    timeline?: TimelineItem[];
+    chapters?: VideoChapter[];
+  },
+  handlers: StreamSummaryHandlers,
+  signal?: AbortSignal
+): Promise<Summary> {
+  const response = await fetch(SUMMARIZE_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || "Failed to generate summary");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: Summary | null = null;
+
+  const handleEvent = (event: string, data: string) => {
+    const payload = JSON.parse(data);
+    switch (event) {
+      case "overview":
+        handlers.onOverview?.(payload.summary);
+        break;
+      case "bullet": {
+        // The final summary is validated as a whole, a malformed preview point is just skipped
+        const bulletPoint = BulletPointSchema.safeParse(payload.bulletPoint);
+        if (bulletPoint.success) handlers.onBulletPoint?.(bulletPoint.data, payload.index);
+        break;
+      }
+      case "progress":
+        handlers.onProgress?.(payload.completed, payload.total);
+        break;
+      case "done":
+        result = parseSummary(payload.summary);
+        break;
+      case "error":
+        throw new Error(payload.error || "Failed to generate summary");
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+      }
+      if (dataLines.length > 0) handleEvent(event, dataLines.join("\n"));
+    }
+  }
+
+  if (!result) throw new Error("Summary stream ended unexpectedly");
+  return result;
+}
@@ -0,0 +1,278 @@
+import { useRef, useState, useSyncExternalStore } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  Clock,
+  Download,
+  FileUp,
+  ListPlus,
+  Loader2,
+  RotateCw,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { Footer } from "@/components/Footer";
+import { useToast } from "@/hooks/use-toast";
+import type { SummaryLength, SummaryOptions, SummaryStyle } from "@/types/summary";
+import { DEFAULT_SUMMARY_OPTIONS, LENGTH_OPTIONS, STYLE_OPTIONS } from "@/lib/summaryOptions";
+import {
+  batchQueue,
+  exportBatchCsv,
+  exportBatchJson,
+  parseUrlList,
+  type BatchItem,
+  type BatchItemStatus,
+} from "@/lib/batchQueue";
+import { downloadBlob } from "@/lib/summaryExport";
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  fetching: 'Fetching',
+  summarizing: 'Summarizing',
+  done: 'Done',
+  error: 'Failed',
+};
+
+const StatusIcon = ({ status }: { status: BatchItemStatus }) => {
+  switch (status) {
+    case 'done':
+      return <CheckCircle2 className="w-5 h-5 text-primary shrink-0" />;
+    case 'error':
+      return <AlertCircle className="w-5 h-5 text-destructive shrink-0" />;
+    case 'queued':
+      return <Clock className="w-5 h-5 text-muted-foreground shrink-0" />;
+    default:
+      return <Loader2 className="w-5 h-5 text-primary animate-spin shrink-0" />;
+  }
+};
+
+const downloadFile = (content: string, fileName: string, type: string) =>
+  downloadBlob(new Blob([content], { type }), fileName);
+
+const Batch = () => {
+  const { items, pausedUntil } = useSyncExternalStore(batchQueue.subscribe, batchQueue.getSnapshot);
+  const [urlText, setUrlText] = useState("");
+  const [options, setOptions] = useState<SummaryOptions>(DEFAULT_SUMMARY_OPTIONS);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const pendingUrls = parseUrlList(urlText);
+  const finished = items.filter(item => item.status === 'done' || item.status === 'error').length;
+  const failed = items.filter(item => item.status === 'error').length;
+  const hasResults = items.some(item => item.status === 'done');
+
+  const handleAdd = () => {
+    const added = batchQueue.add(pendingUrls, options);
+    setUrlText("");
+    toast({
+      title: "Added to queue",
+      description: added < pendingUrls.length
+        ? `${added} URLs added, ${pendingUrls.length - added} were already in the queue`
+        : `${added} URLs will be summarized`,
+    });
+  };
+
+  const handleCsvUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const urls = parseUrlList(await file.text());
+    if (urls.length === 0) {
+      toast({ title: "No links found", description: `${file.name} does not contain any http(s) URLs.`, variant: "destructive" });
+      return;
+    }
+    setUrlText(prev => [prev.trim(), ...urls].filter(Boolean).join('\n'));
+  };
+
+  const handleExport = (type: 'csv' | 'json') => {
+    const stamp = format(new Date(), 'yyyy-MM-dd-HHmm');
+    if (type === 'csv') {
+      downloadFile(exportBatchCsv(items), `batch-summaries-${stamp}.csv`, 'text/csv');
+    } else {
+      downloadFile(exportBatchJson(items), `batch-summaries-${stamp}.json`, 'application/json');
+    }
+  };
+
+  const openItem = (item: BatchItem) => {
+    if (item.historyRef) {
+      navigate('/', { state: { openHistory: item.historyRef } });
+    } else if (item.summary) {
+      navigate('/', { state: { openSummary: { summary: item.summary, content: item.content ?? '', url: item.url } } });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex flex-col">
+      <div className="fixed top-4 right-4 z-50 flex items-center gap-2">
+        <ThemeToggle />
+      </div>
+      <div className="container py-12 px-4 flex-1">
+        <div className="w-full max-w-4xl mx-auto space-y-6">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" asChild className="gap-2">
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Link>
+            </Button>
+            <h1 className="text-3xl font-bold tracking-tight">Batch Summaries</h1>
+          </div>
+
+          <Card className="p-6 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="batch-urls">URLs</Label>
+              <Textarea
+                id="batch-urls"
+                placeholder={"https://example.com/article-one\nhttps://www.youtube.com/watch?v=..."}
+                value={urlText}
+                onChange={(e) => setUrlText(e.target.value)}
+                className="min-h-[140px] font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                Paste one link per line, or upload a CSV that contains links. Web pages and YouTube videos are both supported.
+              </p>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="batch-length">Length</Label>
+                <Select value={options.length} onValueChange={(length) => setOptions({ ...options, length: length as SummaryLength })}>
+                  <SelectTrigger id="batch-length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LENGTH_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-style">Style</Label>
+                <Select value={options.style} onValueChange={(style) => setOptions({ ...options, style: style as SummaryStyle })}>
+                  <SelectTrigger id="batch-style">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STYLE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button onClick={handleAdd} disabled={pendingUrls.length === 0} className="gap-2">
+                <ListPlus className="w-4 h-4" />
+                {pendingUrls.length > 0 ? `Add ${pendingUrls.length} to queue` : 'Add to queue'}
+              </Button>
+              <Button variant="outline" className="gap-2" onClick={() => csvInputRef.current?.click()}>
+                <FileUp className="w-4 h-4" />
+                Upload CSV
+              </Button>
+              <input
+                ref={csvInputRef}
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                className="hidden"
+                onChange={handleCsvUpload}
+              />
+            </div>
+          </Card>
+
+          {items.length > 0 && (
+            <Card className="p-6 space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <h2 className="font-semibold">Queue</h2>
+                <span className="text-sm text-muted-foreground">
+                  {finished} of {items.length} finished{failed > 0 && `, ${failed} failed`}
+                </span>
+                <div className="flex-1" />
+                {failed > 0 && (
+                  <Button size="sm" variant="outline" className="gap-2" onClick={batchQueue.retryFailed}>
+                    <RotateCw className="w-4 h-4" />
+                    Retry failed
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" className="gap-2" onClick={() => handleExport('csv')} disabled={!hasResults}>
+                  <Download className="w-4 h-4" />
+                  CSV
+                </Button>
+                <Button size="sm" variant="outline" className="gap-2" onClick={() => handleExport('json')} disabled={!hasResults}>
+                  <Download className="w-4 h-4" />
+                  JSON
+                </Button>
+                <Button size="sm" variant="ghost" className="gap-2" onClick={batchQueue.clear}>
+                  <Trash2 className="w-4 h-4" />
+                  Clear
+                </Button>
+              </div>
+              <Progress value={(finished / items.length) * 100} />
+              {pausedUntil && (
+                <p className="text-sm text-muted-foreground">
+                  The AI service is rate limiting requests. The queue resumes at {format(new Date(pausedUntil), 'p')}.
+                </p>
+              )}
+
+              <div className="space-y-2">
+                {items.map((item) => (
+                  <div key={item.id} className="flex items-start gap-3 rounded-lg border border-border/50 p-3">
+                    <StatusIcon status={item.status} />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-sm font-medium truncate hover:underline">
+                          {item.url}
+                        </a>
+                        <Badge variant="secondary" className="font-normal shrink-0">{STATUS_LABELS[item.status]}</Badge>
+                        {item.attempts > 1 && (
+                          <span className="text-xs text-muted-foreground shrink-0">attempt {item.attempts}</span>
+                        )}
+                      </div>
+                      {item.summary && (
+                        <p className="text-sm text-muted-foreground line-clamp-2">{item.summary.summary}</p>
+                      )}
+                      {item.error && <p className="text-sm text-destructive">{item.error}</p>}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {item.status === 'done' && (
+                        <Button size="sm" variant="outline" onClick={() => openItem(item)}>
+                          Open
+                        </Button>
+                      )}
+                      {item.status === 'error' && (
+                        <Button size="sm" variant="outline" className="gap-2" onClick={() => batchQueue.retry(item.id)}>
+                          <RotateCw className="w-4 h-4" />
+                          Retry
+                        </Button>
+                      )}
+                      {(item.status === 'queued' || item.status === 'done' || item.status === 'error') && (
+                        <Button size="icon" variant="ghost" className="h-8 w-8" title="Remove" onClick={() => batchQueue.remove(item.id)}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+};
+
+export default Batch;
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, FileText, Link as LinkIcon, Loader2, Pencil, RotateCw, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { Footer } from "@/components/Footer";
+import { LocalHistoryPanel } from "@/components/LocalHistoryPanel";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deleteHistoryEntry,
+  getHistorySettings,
+  listHistory,
+  renameHistoryEntry,
+  saveHistorySettings,
+  type HistorySettings,
+  type HistoryStorage,
+  type SummaryHistoryEntry,
+} from "@/lib/summaryHistory";
+
+const SOURCE_ICONS = {
+  url: LinkIcon,
+  text: FileText,
+  file: Upload,
+};
+
+const History = () => {
+  const [settings, setSettings] = useState<HistorySettings>(getHistorySettings);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: entries = [], isLoading, error } = useQuery({
+    queryKey: ['summary-history'],
+    queryFn: listHistory,
+    enabled: settings.enabled && settings.storage === 'cloud',
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) => renameHistoryEntry(id, title),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['summary-history'] }),
+    onError: () => toast({ title: "Rename failed", description: "Please try again.", variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteHistoryEntry,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['summary-history'] });
+      toast({ title: "Summary deleted", description: "It has been removed from your history" });
+    },
+    onError: () => toast({ title: "Delete failed", description: "Please try again.", variant: "destructive" }),
+  });
+
+  const updateSettings = (next: HistorySettings) => {
+    setSettings(next);
+    saveHistorySettings(next);
+  };
+
+  const startRename = (entry: SummaryHistoryEntry) => {
+    setEditingId(entry.id);
+    setEditingTitle(entry.title);
+  };
+
+  const submitRename = () => {
+    const title = editingTitle.trim();
+    if (editingId && title) {
+      renameMutation.mutate({ id: editingId, title });
+    }
+    setEditingId(null);
+  };
+
+  const canRerun = (entry: SummaryHistoryEntry) =>
+    entry.source_type === 'url' ? !!entry.source_url : !!entry.original_content;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex flex-col">
+      <div className="fixed top-4 right-4 z-50 flex items-center gap-2">
+        <ThemeToggle />
+      </div>
+      <div className="container py-12 px-4 flex-1">
+        <div className="w-full max-w-4xl mx-auto space-y-6">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="sm" asChild className="gap-2">
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Link>
+            </Button>
+            <h1 className="text-3xl font-bold tracking-tight">Summary History</h1>
+          </div>
+
+          <Card className="p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="history-enabled" className="text-base">Save summaries to history</Label>
+                <p className="text-sm text-muted-foreground">
+                  Off by default. Nothing you summarize is kept unless you turn this on.
+                </p>
+              </div>
+              <Switch
+                id="history-enabled"
+                checked={settings.enabled}
+                onCheckedChange={(enabled) => updateSettings({ ...settings, enabled })}
+              />
+            </div>
+            <RadioGroup
+              value={settings.storage}
+              onValueChange={(storage) => updateSettings({ ...settings, storage: storage as HistoryStorage })}
+              disabled={!settings.enabled}
+              className="gap-3"
+            >
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="local" id="history-storage-local" className="mt-1" />
+                <div className="space-y-1">
+                  <Label htmlFor="history-storage-local">This browser only</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Summaries and their source text are encrypted with your passphrase and never leave your browser.
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="cloud" id="history-storage-cloud" className="mt-1" />
+                <div className="space-y-1">
+                  <Label htmlFor="history-storage-cloud">Cloud</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Summaries are stored in a private table linked to this browser until you delete them.
+                  </p>
+                </div>
+              </div>
+            </RadioGroup>
+            {settings.storage === 'cloud' && (
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="history-store-content" className="text-base">Also save the source text</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Needed to re-run text and file summaries. URLs are fetched again instead.
+                  </p>
+                </div>
+                <Switch
+                  id="history-store-content"
+                  checked={settings.storeContent}
+                  disabled={!settings.enabled}
+                  onCheckedChange={(storeContent) => updateSettings({ ...settings, storeContent })}
+                />
+              </div>
+            )}
+          </Card>
+
+          {!settings.enabled ? (
+            <p className="text-center text-muted-foreground py-12">
+              History is turned off. Nothing you summarize is stored.
+            </p>
+          ) : settings.storage === 'local' ? (
+            <LocalHistoryPanel />
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <p className="text-center text-destructive py-12">
+              Could not load your history. Please try again later.
+            </p>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">
+              No saved summaries yet.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry) => {
+                const SourceIcon = SOURCE_ICONS[entry.source_type] ?? FileText;
+                return (
+                  <Card key={entry.id} className="p-4 space-y-3">
+                    <div className="flex items-start gap-3">
+                      <SourceIcon className="w-5 h-5 mt-1 text-muted-foreground shrink-0" />
+                      <div className="flex-1 min-w-0 space-y-1">
+                        {editingId === entry.id ? (
+                          <Input
+                            autoFocus
+                            value={editingTitle}
+                            onChange={(e) => setEditingTitle(e.target.value)}
+                            onBlur={submitRename}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') submitRename();
+                              if (e.key === 'Escape') setEditingId(null);
+                            }}
+                          />
+                        ) : (
+                          <h2 className="font-semibold truncate">{entry.title}</h2>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(entry.created_at), 'PPp')}
+                          {entry.updated_at !== entry.created_at && ` · updated ${format(new Date(entry.updated_at), 'PPp')}`}
+                        </p>
+                        <p className="text-sm text-muted-foreground line-clamp-2">{entry.summary.summary}</p>
+                        {Object.keys(entry.translations).length > 0 && (
+                          <div className="flex flex-wrap gap-1 pt-1">
+                            {Object.keys(entry.translations).map((code) => (
+                              <Badge key={code} variant="secondary" className="uppercase">{code}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Button size="sm" onClick={() => navigate('/', { state: { openHistory: { id: entry.id, storage: 'cloud' } } })}>
+                        Open
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="gap-2"
+                        disabled={!canRerun(entry)}
+                        title={canRerun(entry) ? "Summarize the source again" : "The source text was not saved"}
+                        onClick={() => navigate('/', { state: { rerunHistory: { id: entry.id, storage: 'cloud' } } })}
+                      >
+                        <RotateCw className="w-4 h-4" />
+                        Re-run
+                      </Button>
+                      <Button size="sm" variant="ghost" className="gap-2" onClick={() => startRename(entry)}>
+                        <Pencil className="w-4 h-4" />
+                        Rename
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button size="sm" variant="ghost" className="gap-2 hover:bg-destructive/10 hover:text-destructive">
+                            <Trash2 className="w-4 h-4" />
+                            Delete
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this summary?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{entry.title}" and its translations will be permanently removed.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteMutation.mutate(entry.id)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+};
+
+export default History;
@@ -1,146 +1,163 @@
-import { useState } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { ContentInput } from "@/components/ContentInput";
 import { SummaryDisplay } from "@/components/SummaryDisplay";
+import { ComparisonDisplay } from "@/components/ComparisonDisplay";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { Footer } from "@/components/Footer";
 import { PrivacyNotice } from "@/components/PrivacyNotice";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { Loader2 } from "lucide-react";
+import { Loader2, History, ListChecks } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { GlobalSearch } from "@/components/GlobalSearch";
-
-interface Summary {
-  summary: string;
-  bulletPoints: Array<{
-    point: string;
-    reference: string;
-  }>;
-}
+import type { Comparison, PromptTemplate, Summary, SummaryOptions } from "@/types/summary";
+import { streamSummary } from "@/lib/summaryStream";
+import { parseComparison } from "@/lib/summarySchema";
+import { buildSourceTitle, type CompareSourceInput } from "@/lib/comparison";
+import { summarizePlaylist } from "@/lib/playlistSummary";
+import { fetchMediaTranscript, fetchSourceContent, fetchUrlContent, fetchYouTubeTranscript, isMediaUrl, isYouTubeCollectionUrl, isYouTubeUrl, type CaptionLanguage, type TimelineItem, type VideoChapter } from "@/lib/sourceContent";
+import type { SourceType } from "@/lib/summaryHistory";
+import {
+  loadHistoryRecord,
+  recordSummary,
+  recordTranslation,
+  replaceRecordedSummary,
+  type HistoryRef,
+} from "@/lib/history";
 
 const Index = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [summary, setSummary] = useState<Summary | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
   const [translatedSummary, setTranslatedSummary] = useState<Summary | null>(null);
   const [originalContent, setOriginalContent] = useState("");
   const [originalUrl, setOriginalUrl] = useState("");
   const [searchHighlight, setSearchHighlight] = useState<{ section: 'summary' | 'bullets' | 'content'; bulletIndex?: number; query?: string } | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamProgress, setStreamProgress] = useState<{ completed: number; total: number; unit?: string } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [historyRef, setHistoryRef] = useState<HistoryRef | null>(null);
   const { toast } = useToast();
+  const location = useLocation();
+  const navigate = useNavigate();
 
-  const isYouTubeUrl = (url: string): boolean => {
-    return url.includes('youtube.com') || url.includes('youtu.be');
-  };
+  const showVideosFound = useCallback((count: number) => {
+    toast({
+      title: "Found embedded videos",
+      description: `Extracting transcripts from ${count} video(s)...`,
+    });
+  }, [toast]);
 
-  const extractVideoUrls = (html: string): string[] => {
-    const videoUrls: string[] = [];
-    
-    // Extract YouTube embeds
-    const youtubeMatches = html.matchAll(/(?:youtube\.com\/embed\/|youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})/g);
-    for (const match of youtubeMatches) {
-      videoUrls.push(`https://www.youtube.com/watch?v=${match[1]}`);
-    }
-    
-    // Extract YouTube iframes
-    const iframeMatches = html.matchAll(/<iframe[^>]+src="([^"]*(?:youtube\.com|youtu\.be)[^"]*)"/gi);
-    for (const match of iframeMatches) {
-      const iframeSrc = match[1];
-      const videoIdMatch = iframeSrc.match(/(?:embed\/|watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]{11})/);
-      if (videoIdMatch) {
-        videoUrls.push(`https://www.youtube.com/watch?v=${videoIdMatch[1]}`);
+  // History is opt-in; a failed save should never cost the user their summary
+  const saveSummaryToHistory = useCallback(async (entry: {
+    sourceType: SourceType;
+    sourceUrl?: string;
+    sourceName?: string;
+    content: string;
+    summary: Summary;
+    historyRef?: HistoryRef;
+  }) => {
+    try {
+      if (entry.historyRef) {
+        await replaceRecordedSummary(entry.historyRef, entry.content, entry.summary);
+        setHistoryRef(entry.historyRef);
+      } else {
+        setHistoryRef(await recordSummary(entry));
       }
+    } catch (error) {
+      console.error('Failed to save summary to history:', error);
+      toast({
+        title: "Could not save to history",
+        description: error instanceof Error ? error.message : "The summary is still available on this page.",
+        variant: "destructive",
+      });
     }
-    
-    return [...new Set(videoUrls)]; // Remove duplicates
-  };
+  }, [toast]);
+
+  const handlePlaylistSubmit = useCallback(async (input: string, meta?: { options?: SummaryOptions; historyRef?: HistoryRef }) => {
+    setIsLoading(true);
+    setSummary(null);
+    setTranslatedSummary(null);
+    setHistoryRef(null);
+    setOriginalUrl(input);
 
-  const fetchYouTubeTranscript = async (url: string): Promise<string> => {
-    // Try new captions function first, then fall back to the robust extractor
     try {
-      const { data, error } = await supabase.functions.invoke('get-youtube-captions', {
-        body: { url, lang: 'en' }
+      toast({
+        title: "Listing videos...",
+        description: "Getting the videos of the playlist",
       });
-      if (error) throw error;
-      if (!data?.text) throw new Error('No captions available');
 
-      let result = data.text as string;
-      if (Array.isArray(data.timeline) && data.timeline.length > 0) {
-        result += '\n\n=== TIMELINE ===\n\n' + data.timeline.map((item: any) => `[${item.time}] ${item.text}`).join('\n');
-      }
-      return result;
-    } catch (firstErr) {
-      console.log('Primary captions fetch failed, trying fallback extractor:', firstErr);
-      try {
-        const { data, error } = await supabase.functions.invoke('extract-youtube-transcript', {
-          body: { url }
-        });
-        if (error) throw error;
-        if (!data?.transcript) throw new Error('No transcript available');
-        let result = data.transcript as string;
-        if (Array.isArray(data.timeline) && data.timeline.length > 0) {
-          result += '\n\n=== TIMELINE ===\n\n' + data.timeline.map((item: any) => `[${item.time}] ${item.text}`).join('\n');
-        }
-        return result;
-      } catch (fallbackErr) {
-        console.error('Both caption methods failed:', fallbackErr);
-        throw new Error('Failed to extract video transcript. The video may not have captions available.');
-      }
-    }
-  };
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { summary: result, content, playlist } = await summarizePlaylist(input, meta?.options, {
+        onPlaylist: (playlist) => {
+          toast({
+            title: `Summarizing ${playlist.videos.length} videos`,
+            description: playlist.totalVideos > playlist.videos.length
+              ? `Only the first ${playlist.videos.length} of ${playlist.totalVideos} videos in "${playlist.title}" are included`
+              : `Each video of "${playlist.title}" is summarized, then rolled up`,
+          });
+          setIsStreaming(true);
+          setSummary({ summary: "", bulletPoints: [] });
+          setStreamProgress({ completed: 0, total: playlist.videos.length, unit: 'videos' });
+        },
+        onProgress: (completed, total) => setStreamProgress({ completed, total, unit: 'videos' }),
+      }, controller.signal);
 
-  const fetchUrlContent = async (url: string): Promise<string> => {
-    try {
-      // Use edge function to fetch URL content (bypasses CORS)
-      const { data, error } = await supabase.functions.invoke('fetch-url-content', {
-        body: { url }
+      setOriginalContent(content);
+      setSummary(result);
+      await saveSummaryToHistory({
+        sourceType: 'url',
+        sourceUrl: input,
+        content,
+        summary: result,
+        historyRef: meta?.historyRef,
       });
 
-      if (error) throw error;
-      if (!data.html) throw new Error('No content returned');
-
-      const html = data.html;
-      
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(html, 'text/html');
-      
-      // Check for embedded videos
-      const videoUrls = extractVideoUrls(html);
-      let videoTranscripts = '';
-      
-      if (videoUrls.length > 0) {
-        toast({
-          title: "Found embedded videos",
-          description: `Extracting transcripts from ${videoUrls.length} video(s)...`,
-        });
-        
-        for (const videoUrl of videoUrls.slice(0, 3)) { // Limit to first 3 videos
-          try {
-            const transcript = await fetchYouTubeTranscript(videoUrl);
-            videoTranscripts += `\n\nVideo Transcript:\n${transcript}\n`;
-          } catch (error) {
-            console.log('Failed to extract transcript from embedded video:', videoUrl);
-          }
-        }
-      }
-      
-      const scripts = doc.querySelectorAll('script, style, nav, header, footer');
-      scripts.forEach(el => el.remove());
-      
-      const textContent = doc.body.textContent || '';
-      const pageText = textContent.replace(/\s+/g, ' ').trim();
-      
-      // Combine page text with video transcripts
-      const combinedContent = pageText + videoTranscripts;
-      return combinedContent.slice(0, 25000); // Increased limit to accommodate videos
+      const failed = result.playlist?.videos.filter(video => video.error).length ?? 0;
+      toast({
+        title: "Playlist summary ready!",
+        description: failed > 0
+          ? `${failed} of ${playlist.videos.length} videos could not be summarized`
+          : `${playlist.videos.length} videos summarized and rolled up`,
+      });
     } catch (error) {
-      throw new Error('Failed to fetch URL content. Please check the URL and try again.');
+      // Cancellation is handled by handleCancel
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error:', error);
+      setSummary(null);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to summarize the playlist. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+      setIsStreaming(false);
+      setStreamProgress(null);
+      abortControllerRef.current = null;
+    }
+  }, [toast, saveSummaryToHistory]);
+
+  const handleSubmit = useCallback(async (
+    input: string,
+    type: SourceType,
+    meta?: { fileName?: string; options?: SummaryOptions; template?: PromptTemplate; language?: string; maxPages?: number; caption?: CaptionLanguage; historyRef?: HistoryRef }
+  ) => {
+    if (type === 'url' && isYouTubeCollectionUrl(input)) {
+      return handlePlaylistSubmit(input, meta);
     }
-  };
 
-  const handleSubmit = async (input: string, type: 'url' | 'text' | 'file') => {
     setIsLoading(true);
     setSummary(null);
+    setTranslatedSummary(null);
+    setHistoryRef(null);
 
     try {
       let content = input;
+      let timeline: TimelineItem[] | undefined;
+      let chapters: VideoChapter[] | undefined;
       
       if (type === 'url') {
         setOriginalUrl(input); // Store the original URL
@@ -149,13 +166,25 @@ const Index = () => {
             title: "Extracting video transcript...",
             description: "Getting captions from YouTube video",
           });
-          content = await fetchYouTubeTranscript(input);
+          ({ text: content, timeline, chapters } = await fetchYouTubeTranscript(input, meta?.caption));
+        } else if (isMediaUrl(input)) {
+          toast({
+            title: "Extracting transcript...",
+            description: "Getting captions or the podcast transcript",
+          });
+          ({ text: content, timeline, chapters } = await fetchMediaTranscript(input));
         } else {
           toast({
             title: "Fetching content...",
             description: "Extracting text from the URL",
           });
-          content = await fetchUrlContent(input);
+          content = await fetchUrlContent(input, showVideosFound, {
+            maxPages: meta?.maxPages,
+            onPagesFetched: (count) => toast({
+              title: `Merged ${count} pages`,
+              description: "Key points will show which page they came from",
+            }),
+          });
         }
       }
 
@@ -166,21 +195,49 @@ const Index = () => {
         description: "AI is generating your summary",
       });
 
-      const { data, error } = await supabase.functions.invoke('summarize-content', {
-        body: { content }
-      });
+      // Show the summary view right away and fill it in as the stream arrives
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      setIsStreaming(true);
+      setSummary({ summary: "", bulletPoints: [] });
 
-      if (error) throw error;
+      const result = await streamSummary({
+        content,
+        url: type === 'url' ? input : undefined,
+        options: meta?.options,
+        template: meta?.template,
+        variables: meta?.language ? { language: meta.language } : undefined,
+        timeline,
+        chapters,
+      }, {
+        onOverview: (overview) => setSummary(prev => prev && { ...prev, summary: overview }),
+        onBulletPoint: (bulletPoint) => setSummary(prev => prev && { ...prev, bulletPoints: [...prev.bulletPoints, bulletPoint] }),
+        onProgress: (completed, total) => setStreamProgress({ completed, total }),
+      }, controller.signal);
 
-      setSummary(data.summary);
+      setSummary(result);
+      await saveSummaryToHistory({
+        sourceType: type,
+        sourceUrl: type === 'url' ? input : undefined,
+        sourceName: meta?.fileName,
+        content,
+        summary: result,
+        historyRef: meta?.historyRef,
+      });
       
+      const chunkCount = result.chunking?.chunkCount;
       toast({
         title: "Summary ready!",
-        description: "Your content has been analyzed successfully",
+        description: chunkCount
+          ? `Long content was summarized in ${chunkCount} sections and merged`
+          : "Your content has been analyzed successfully",
       });
 
     } catch (error) {
+      // Cancellation is handled by handleCancel
+      if (error instanceof DOMException && error.name === 'AbortError') return;
       console.error('Error:', error);
+      setSummary(prev => prev && prev.bulletPoints.length > 0 ? prev : null);
       toast({
         title: "Error",
         description: error instanceof Error ? error.message : "Failed to process content. Please try again.",
@@ -188,15 +245,148 @@ const Index = () => {
       });
     } finally {
       setIsLoading(false);
+      setIsStreaming(false);
+      setStreamProgress(null);
+      abortControllerRef.current = null;
     }
+  }, [toast, handlePlaylistSubmit, saveSummaryToHistory, showVideosFound]);
+
+  const handleCompare = async (sources: CompareSourceInput[], meta: { options: SummaryOptions }) => {
+    setIsLoading(true);
+    setSummary(null);
+    setComparison(null);
+
+    try {
+      toast({
+        title: "Collecting sources...",
+        description: `Preparing ${sources.length} documents for comparison`,
+      });
+
+      const documents: Array<{ title: string; url?: string; content: string }> = [];
+      for (const [index, source] of sources.entries()) {
+        const url = source.type === 'url' ? source.value.trim() : undefined;
+        const content = url ? await fetchSourceContent(url, showVideosFound) : source.value;
+        documents.push({ title: buildSourceTitle(source, index), url, content });
+      }
+
+      toast({
+        title: "Comparing sources...",
+        description: "AI is summarizing each source and lining them up",
+      });
+
+      const { data, error } = await supabase.functions.invoke('summarize-content', {
+        body: { mode: 'compare', documents, options: meta.options }
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setComparison(parseComparison(data.comparison));
+      toast({
+        title: "Comparison ready!",
+        description: `${documents.length} sources compared`,
+      });
+    } catch (error) {
+      console.error('Error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to compare sources. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTranslated = async (languageCode: string, translated: Summary) => {
+    if (!historyRef) return;
+    try {
+      await recordTranslation(historyRef, languageCode, translated);
+    } catch (error) {
+      console.error('Failed to save translation to history:', error);
+    }
+  };
+
+  const openHistoryEntry = useCallback(async (ref: HistoryRef) => {
+    setIsLoading(true);
+    try {
+      const record = await loadHistoryRecord(ref);
+      setSummary(record.summary);
+      setTranslatedSummary(null);
+      setOriginalContent(record.content || "");
+      setOriginalUrl(record.sourceUrl || "");
+      setHistoryRef(ref);
+    } catch (error) {
+      console.error('Failed to open history entry:', error);
+      toast({
+        title: "Error",
+        description: "Could not open this summary from history.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  const rerunHistoryEntry = useCallback(async (ref: HistoryRef) => {
+    try {
+      const record = await loadHistoryRecord(ref);
+      const input = record.sourceType === 'url' ? record.sourceUrl : record.content;
+      if (!input) {
+        throw new Error('The source text of this summary was not saved, so it cannot be re-run.');
+      }
+      await handleSubmit(input, record.sourceType, {
+        fileName: record.sourceName,
+        options: record.summary.options,
+        template: record.summary.template,
+        language: record.summary.template?.language,
+        historyRef: ref,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not re-run this summary.",
+        variant: "destructive",
+      });
+    }
+  }, [toast, handleSubmit]);
+
+  // The history page links back here with the entry to open or re-run
+  useEffect(() => {
+    const state = location.state as {
+      openHistory?: HistoryRef;
+      rerunHistory?: HistoryRef;
+      openSummary?: { summary: Summary; content: string; url: string };
+    } | null;
+    if (!state) return;
+    navigate(location.pathname, { replace: true, state: null });
+    if (state.openHistory) openHistoryEntry(state.openHistory);
+    else if (state.rerunHistory) rerunHistoryEntry(state.rerunHistory);
+    else if (state.openSummary) {
+      setSummary(state.openSummary.summary);
+      setOriginalContent(state.openSummary.content);
+      setOriginalUrl(state.openSummary.url);
+    }
+  }, [location.state, location.pathname, navigate, openHistoryEntry, rerunHistoryEntry]);
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    // Keep whatever points have already arrived
+    setSummary(prev => prev && prev.bulletPoints.length > 0 ? prev : null);
+    toast({
+      title: "Summary stopped",
+      description: "Generation was cancelled. Any points received so far are kept.",
+    });
   };
 
   const handleBack = () => {
+    abortControllerRef.current?.abort();
     setSummary(null);
+    setComparison(null);
     setTranslatedSummary(null);
     setOriginalContent("");
     setOriginalUrl("");
     setSearchHighlight(null);
+    setHistoryRef(null);
   };
 
   const handleNavigate = (section: 'summary' | 'bullets' | 'content', bulletIndex?: number, query?: string) => {
@@ -213,12 +403,24 @@ const Index = () => {
           originalUrl={originalUrl}
           onNavigate={handleNavigate}
         />
+        <Button variant="outline" size="icon" asChild>
+          <Link to="/batch" aria-label="Batch summaries">
+            <ListChecks className="h-4 w-4" />
+          </Link>
+        </Button>
+        <Button variant="outline" size="icon" asChild>
+          <Link to="/history" aria-label="Summary history">
+            <History className="h-4 w-4" />
+          </Link>
+        </Button>
         <ThemeToggle />
       </div>
       <div className="container py-12 px-4 space-y-12 flex-1">
-        {!summary ? (
+        {comparison ? (
+          <ComparisonDisplay comparison={comparison} onBack={handleBack} />
+        ) : !summary ? (
           <>
-            <ContentInput onSubmit={handleSubmit} isLoading={isLoading} />
+            <ContentInput onSubmit={handleSubmit} onCompare={handleCompare} isLoading={isLoading} />
             <PrivacyNotice />
           </>
         ) : (
@@ -231,10 +433,14 @@ const Index = () => {
             onSearchComplete={() => setSearchHighlight(null)}
             translatedSummary={translatedSummary}
             onTranslatedSummaryChange={setTranslatedSummary}
+            onTranslated={handleTranslated}
+            isStreaming={isStreaming}
+            streamProgress={streamProgress}
+            onCancel={handleCancel}
           />
         )}
         
-        {isLoading && (
+        {isLoading && !summary && (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="w-8 h-8 animate-spin text-primary" />
           </div>
@@ -0,0 +1,218 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ChevronRight, Columns2, ExternalLink, Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { Footer } from "@/components/Footer";
+import { SourceViewer } from "@/components/SourceViewer";
+import { describeSummaryOptions } from "@/lib/summaryOptions";
+import { isHttpUrl } from "@/lib/summarySchema";
+import {
+  SharePasswordError,
+  fetchSharedSummary,
+  type SharedSummary as Share,
+} from "@/lib/sharing";
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'password'; error?: string }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; share: Share };
+
+const SharedSummary = () => {
+  const { id = "" } = useParams();
+  const [state, setState] = useState<LoadState>({ status: 'loading' });
+  const [password, setPassword] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [showSource, setShowSource] = useState(false);
+
+  const load = useCallback(async (attempt?: string) => {
+    try {
+      const share = await fetchSharedSummary(id, attempt);
+      setState({ status: 'ready', share });
+    } catch (error) {
+      if (error instanceof SharePasswordError) {
+        // The first request is made without a password, that's not an error to show
+        setState({ status: 'password', error: attempt ? error.message : undefined });
+      } else {
+        console.error('Error loading shared summary:', error);
+        setState({ status: 'error', error: error instanceof Error ? error.message : 'Failed to load shared summary' });
+      }
+    }
+  }, [id]);
+
+  useEffect(() => {
+    setState({ status: 'loading' });
+    load();
+  }, [load]);
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    await load(password);
+    setIsUnlocking(false);
+  };
+
+  const renderBody = () => {
+    if (state.status === 'loading') {
+      return (
+        <div className="flex items-center justify-center gap-2 py-24 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          Loading summary...
+        </div>
+      );
+    }
+
+    if (state.status === 'error') {
+      return (
+        <Card className="p-8 text-center space-y-4">
+          <p className="text-lg font-medium">{state.error}</p>
+          <Button asChild variant="outline">
+            <Link to="/">Summarize something yourself</Link>
+          </Button>
+        </Card>
+      );
+    }
+
+    if (state.status === 'password') {
+      return (
+        <Card className="p-8 max-w-sm mx-auto">
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Lock className="w-5 h-5 text-muted-foreground" />
+              <h2 className="font-semibold">This summary is password protected</h2>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password</Label>
+              <Input
+                id="share-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+              />
+              {state.error && <p className="text-sm text-destructive">{state.error}</p>}
+            </div>
+            <Button type="submit" className="w-full gap-2" disabled={!password || isUnlocking}>
+              {isUnlocking && <Loader2 className="w-4 h-4 animate-spin" />}
+              View summary
+            </Button>
+          </form>
+        </Card>
+      );
+    }
+
+    const { share } = state;
+    const summary = showTranslation && share.translation ? share.translation.summary : share.summary;
+
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="min-w-0 flex-1 space-y-1">
+            <h1 className="text-2xl font-bold tracking-tight truncate">{share.title}</h1>
+            <p className="text-sm text-muted-foreground">
+              Shared {format(new Date(share.createdAt), 'PPP')}
+              {share.expiresAt && ` · expires ${format(new Date(share.expiresAt), 'PPP p')}`}
+            </p>
+          </div>
+          {share.translation && (
+            <div className="flex rounded-md border border-border/50 p-0.5">
+              <Button size="sm" variant={showTranslation ? "ghost" : "secondary"} className="h-7" onClick={() => setShowTranslation(false)}>
+                Original
+              </Button>
+              <Button size="sm" variant={showTranslation ? "secondary" : "ghost"} className="h-7" onClick={() => setShowTranslation(true)}>
+                {share.translation.language}
+              </Button>
+            </div>
+          )}
+          {share.content && (
+            <Button
+              variant={showSource ? "secondary" : "outline"}
+              size="sm"
+              className="gap-2"
+              onClick={() => setShowSource(!showSource)}
+            >
+              <Columns2 className="w-4 h-4" />
+              Source
+            </Button>
+          )}
+        </div>
+
+        <Card className="p-8 bg-gradient-to-br from-card to-card/95 border-border/50 shadow-soft space-y-6">
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Overview</h2>
+              <div className="flex-1" />
+              {share.summary.options && describeSummaryOptions(share.summary.options).map((label) => (
+                <Badge key={label} variant="secondary" className="font-normal">{label}</Badge>
+              ))}
+            </div>
+            <p className="text-lg leading-relaxed text-foreground/90">{summary.summary}</p>
+            {share.sourceUrl && isHttpUrl(share.sourceUrl) && (
+              <a
+                href={share.sourceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground break-all"
+              >
+                <ExternalLink className="w-3 h-3 shrink-0" />
+                {share.sourceUrl}
+              </a>
+            )}
+          </div>
+
+          <div className="h-px bg-gradient-to-r from-transparent via-border to-transparent" />
+
+          <div className="space-y-4">
+            <h2 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Key Points</h2>
+            {summary.bulletPoints.map((bp, index) => (
+              <div key={index} className="flex items-start gap-3">
+                <ChevronRight className="w-5 h-5 mt-0.5 text-primary shrink-0" />
+                <div className="space-y-2 min-w-0">
+                  <p className="text-base font-medium leading-relaxed">{bp.point}</p>
+                  {bp.reference && (
+                    <blockquote className="text-sm text-muted-foreground italic pl-4 border-l-2 border-muted-foreground/20">
+                      "{bp.reference}"
+                    </blockquote>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        {showSource && share.content && (
+          <SourceViewer
+            content={share.content}
+            bulletPoints={share.summary.bulletPoints}
+            displayPoints={summary.bulletPoints.map(bp => bp.point)}
+            chunks={share.summary.chunking?.chunks}
+            onClose={() => setShowSource(false)}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex flex-col">
+      <div className="fixed top-4 right-4 z-50 flex items-center gap-2">
+        <ThemeToggle />
+      </div>
+      <div className="container py-12 px-4 flex-1">
+        <div className="w-full max-w-4xl mx-auto">
+          {renderBody()}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+};
+
+export default SharedSummary;
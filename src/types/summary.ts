@@ -0,0 +1,16 @@
+// The summary types are inferred from the zod schemas shared with the edge
+// functions, so a field is added in one place: the schema.
+export type {
+  BulletPoint,
+  ChapterSummary,
+  Comparison,
+  ComparisonSource,
+  PlaylistVideoSummary,
+  PromptTemplate,
+  SourceAttribution,
+  Summary,
+  SummaryChunk,
+  SummaryLength,
+  SummaryOptions,
+  SummaryStyle,
+} from "../../supabase/functions/_shared/summarySchema";
@@ -0,0 +1,14 @@
+// Codes the fetching functions answer with when they refuse or fail to fetch
+// a URL. Shared with the web client, which shows a message for each, so it
+// must stay free of Deno and browser APIs.
+
+export type FetchErrorCode =
+  | 'INVALID_URL'
+  | 'UNSUPPORTED_SCHEME'
+  | 'BLOCKED_ADDRESS'
+  | 'DNS_FAILED'
+  | 'TOO_MANY_REDIRECTS'
+  | 'TIMEOUT'
+  | 'TOO_LARGE'
+  | 'UNSUPPORTED_CONTENT_TYPE'
+  | 'UPSTREAM_ERROR';
@@ -0,0 +1,279 @@
+import type { FetchErrorCode } from "./fetchErrors.ts";
+
+// Fetch policy for URLs supplied by users. Every request, and every redirect
+// it follows, must use http(s) on a standard port and resolve only to public
+// addresses, so the functions can't be used to reach localhost, the private
+// network or cloud metadata endpoints. Responses are limited in time, size
+// and content type.
+//
+// DNS is resolved before fetching, and fetch resolves again on its own, so a
+// host that changes its answer in between (DNS rebinding) is not fully
+// covered; the checks still stop every direct and redirect-based attempt.
+
+const ERROR_STATUS: Record<FetchErrorCode, number> = {
+  INVALID_URL: 400,
+  UNSUPPORTED_SCHEME: 400,
+  BLOCKED_ADDRESS: 403,
+  DNS_FAILED: 502,
+  TOO_MANY_REDIRECTS: 502,
+  TIMEOUT: 504,
+  TOO_LARGE: 413,
+  UNSUPPORTED_CONTENT_TYPE: 415,
+  UPSTREAM_ERROR: 502,
+};
+
+export class FetchPolicyError extends Error {
+  status: number;
+
+  constructor(public code: FetchErrorCode, message: string, public upstreamStatus?: number) {
+    super(message);
+    this.name = 'FetchPolicyError';
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+export interface SafeFetchOptions {
+  // Allowed media types, e.g. "text/html"; a trailing "/*" allows a whole type
+  contentTypes: string[];
+  maxBytes?: number;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  headers?: Record<string, string>;
+}
+
+export interface SafeFetchResult {
+  // After redirects
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_REDIRECTS = 5;
+const ALLOWED_SCHEMES = new Set(['http:', 'https:']);
+const ALLOWED_PORTS = new Set(['', '80', '443', '8080', '8443']);
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+
+// [network, prefix length]
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8],         // "this" network
+  ['10.0.0.0', 8],        // private
+  ['100.64.0.0', 10],     // carrier-grade NAT
+  ['127.0.0.0', 8],       // loopback
+  ['169.254.0.0', 16],    // link-local, incl. cloud metadata
+  ['172.16.0.0', 12],     // private
+  ['192.0.0.0', 24],      // IETF protocol assignments
+  ['192.0.2.0', 24],      // documentation
+  ['192.168.0.0', 16],    // private
+  ['198.18.0.0', 15],     // benchmarking
+  ['198.51.100.0', 24],   // documentation
+  ['203.0.113.0', 24],    // documentation
+  ['224.0.0.0', 4],       // multicast
+  ['240.0.0.0', 4],       // reserved, incl. broadcast
+];
+
+function parseIPv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isBlockedIPv4(address: string): boolean {
+  const value = parseIPv4(address);
+  if (value === null) return true;
+  return BLOCKED_IPV4.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = parseIPv4(network)!;
+    return value >= start && value < start + size;
+  });
+}
+
+// Expands "::" and an embedded IPv4 tail into eight 16-bit groups
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/^\[|\]$/g, '').split('%')[0];
+  const v4 = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const value = parseIPv4(v4[1]);
+    if (value === null) return null;
+    text = text.slice(0, -v4[1].length) + `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (missing < 0 || (halves.length === 1 && missing !== 0)) return null;
+  const groups = [...head, ...Array(missing).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function isBlockedIPv6(address: string): boolean {
+  const groups = parseIPv6(address);
+  if (!groups) return true;
+  const embeddedV4 = () => `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+
+  if (groups.every(group => group === 0)) return true;                                      // unspecified
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] === 1) return true;       // loopback
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    return isBlockedIPv4(embeddedV4());                                                     // IPv4-mapped
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return isBlockedIPv4(embeddedV4());       // NAT64
+  if ((groups[0] & 0xfe00) === 0xfc00) return true;                                         // unique local
+  if ((groups[0] & 0xffc0) === 0xfe80) return true;                                         // link-local
+  if ((groups[0] & 0xff00) === 0xff00) return true;                                         // multicast
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) return true;                            // documentation
+  return false;
+}
+
+export function isBlockedAddress(address: string): boolean {
+  return address.includes(':') ? isBlockedIPv6(address) : isBlockedIPv4(address);
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  return lookups.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+}
+
+// Throws a FetchPolicyError unless the URL is allowed to be fetched
+export async function validateUrl(raw: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new FetchPolicyError('INVALID_URL', 'The URL is not valid.');
+  }
+
+  if (!ALLOWED_SCHEMES.has(url.protocol)) {
+    throw new FetchPolicyError('UNSUPPORTED_SCHEME', `Only http and https links are supported, not ${url.protocol.replace(':', '')}.`);
+  }
+  if (url.username || url.password) {
+    throw new FetchPolicyError('INVALID_URL', 'Links with embedded credentials are not supported.');
+  }
+  if (!ALLOWED_PORTS.has(url.port)) {
+    throw new FetchPolicyError('BLOCKED_ADDRESS', `Port ${url.port} is not allowed.`);
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  if (hostname === 'localhost' || BLOCKED_HOST_SUFFIXES.some(suffix => hostname.endsWith(suffix))) {
+    throw new FetchPolicyError('BLOCKED_ADDRESS', 'Links to local or internal hosts are not allowed.');
+  }
+
+  const isIpLiteral = hostname.startsWith('[') || parseIPv4(hostname) !== null;
+  const addresses = isIpLiteral ? [hostname.replace(/^\[|\]$/g, '')] : await resolveHost(hostname);
+  if (addresses.length === 0) {
+    throw new FetchPolicyError('DNS_FAILED', `Could not resolve ${hostname}.`);
+  }
+  if (addresses.some(isBlockedAddress)) {
+    console.log('Blocked URL resolving to a private address:', hostname, addresses);
+    throw new FetchPolicyError('BLOCKED_ADDRESS', 'Links to private or internal network addresses are not allowed.');
+  }
+  return url;
+}
+
+function mediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+function isAllowedType(contentType: string, allowed: string[]): boolean {
+  const type = mediaType(contentType);
+  return allowed.some(pattern =>
+    pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern
+  );
+}
+
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new FetchPolicyError('TOO_LARGE', `The page is larger than ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new FetchPolicyError('TOO_LARGE', `The page is larger than ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+    }
+    parts.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+function decode(bytes: Uint8Array, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions): Promise<SafeFetchResult> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  try {
+    let url = await validateUrl(rawUrl);
+    for (let redirects = 0; ; redirects++) {
+      const response = await fetch(url, {
+        headers: options.headers,
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+
+      if (response.status >= 300 && response.status < 400 && response.headers.get('location')) {
+        await response.body?.cancel();
+        if (redirects >= maxRedirects) {
+          throw new FetchPolicyError('TOO_MANY_REDIRECTS', `The link redirected more than ${maxRedirects} times.`);
+        }
+        // Each hop is checked again, a public page may redirect to an internal one
+        url = await validateUrl(new URL(response.headers.get('location')!, url).toString());
+        console.log('Following redirect to:', url.toString());
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new FetchPolicyError('UPSTREAM_ERROR', `The site responded with ${response.status} ${response.statusText}.`, response.status);
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      if (contentType && !isAllowedType(contentType, options.contentTypes)) {
+        await response.body?.cancel();
+        throw new FetchPolicyError('UNSUPPORTED_CONTENT_TYPE', `Links to ${mediaType(contentType)} content are not supported.`);
+      }
+
+      const bytes = await readLimited(response, maxBytes);
+      return { url: url.toString(), status: response.status, contentType, body: decode(bytes, contentType) };
+    }
+  } catch (error) {
+    if (error instanceof FetchPolicyError) throw error;
+    if (controller.signal.aborted) {
+      throw new FetchPolicyError('TIMEOUT', 'The site took too long to respond.');
+    }
+    throw new FetchPolicyError('UPSTREAM_ERROR', `Could not fetch the page: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
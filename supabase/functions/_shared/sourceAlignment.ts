@@ -0,0 +1,110 @@
+// Finds where a quote produced by the model really occurs in the source text.
+// Models often change case, punctuation or a few words when "quoting", so
+// matching goes from exact, to normalized text, to the best word window.
+// Pure TypeScript so it can be shared by edge functions without an import map.
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+// Fraction of the quote's distinct words that must appear in a window of the
+// source before it is accepted as the quoted passage
+const FUZZY_THRESHOLD = 0.6;
+// Shorter quotes match too many places to be aligned by word overlap
+const MIN_FUZZY_WORDS = 4;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+function tokenize(text: string, offset = 0): Token[] {
+  return [...text.matchAll(WORD)].map(match => ({
+    word: match[0].toLowerCase(),
+    start: offset + match.index!,
+    end: offset + match.index! + match[0].length,
+  }));
+}
+
+function stripQuotes(quote: string): string {
+  return quote.trim().replace(/^["'“‘]+|["'”’]+$/g, '').trim();
+}
+
+// Compares the texts word by word, ignoring case, punctuation and whitespace
+function alignNormalized(tokens: Token[], quoteWords: string[]): SourceSpan | null {
+  outer: for (let i = 0; i + quoteWords.length <= tokens.length; i++) {
+    for (let j = 0; j < quoteWords.length; j++) {
+      if (tokens[i + j].word !== quoteWords[j]) continue outer;
+    }
+    return { start: tokens[i].start, end: tokens[i + quoteWords.length - 1].end };
+  }
+  return null;
+}
+
+// Slides a window as long as the quote over the source and keeps the one that
+// contains the most of the quote's words, trimmed to start and end on one
+function alignFuzzy(tokens: Token[], quoteWords: string[]): SourceSpan | null {
+  const wanted = new Set(quoteWords);
+  if (wanted.size < MIN_FUZZY_WORDS || tokens.length === 0) return null;
+
+  const size = Math.min(quoteWords.length, tokens.length);
+  const counts = new Map<string, number>();
+  let present = 0;
+  const add = (word: string) => {
+    if (!wanted.has(word)) return;
+    const count = counts.get(word) ?? 0;
+    if (count === 0) present++;
+    counts.set(word, count + 1);
+  };
+  const remove = (word: string) => {
+    if (!wanted.has(word)) return;
+    const count = counts.get(word)!;
+    if (count === 1) present--;
+    counts.set(word, count - 1);
+  };
+
+  for (let i = 0; i < size; i++) add(tokens[i].word);
+  let best = { index: 0, present };
+  for (let i = 1; i + size <= tokens.length; i++) {
+    remove(tokens[i - 1].word);
+    add(tokens[i + size - 1].word);
+    if (present > best.present) best = { index: i, present };
+  }
+
+  if (best.present / wanted.size < FUZZY_THRESHOLD) return null;
+
+  let first = best.index;
+  let last = best.index + size - 1;
+  while (first < last && !wanted.has(tokens[first].word)) first++;
+  while (last > first && !wanted.has(tokens[last].word)) last--;
+  return { start: tokens[first].start, end: tokens[last].end };
+}
+
+function alignInRange(content: string, quote: string, range: SourceSpan): SourceSpan | null {
+  const text = content.slice(range.start, range.end);
+
+  const exact = text.indexOf(quote);
+  if (exact !== -1) return { start: range.start + exact, end: range.start + exact + quote.length };
+
+  const quoteWords = tokenize(quote).map(token => token.word);
+  if (quoteWords.length === 0) return null;
+  const tokens = tokenize(text, range.start);
+  return alignNormalized(tokens, quoteWords) ?? alignFuzzy(tokens, quoteWords);
+}
+
+// `hint` is searched first, e.g. the chunk a bullet point was generated from
+export function alignQuote(content: string, quote: string, hint?: SourceSpan): SourceSpan | null {
+  const trimmed = stripQuotes(quote);
+  if (!trimmed) return null;
+
+  const whole = { start: 0, end: content.length };
+  if (hint && (hint.start > 0 || hint.end < content.length)) {
+    const span = alignInRange(content, trimmed, hint);
+    if (span) return span;
+  }
+  return alignInRange(content, trimmed, whole);
+}
@@ -0,0 +1,232 @@
+// Shared between the edge functions and the web client (via
+// src/lib/summarySchema.ts and src/types/summary.ts). The schemas are the
+// single definition of a summary: its types are inferred from them below.
+// "zod" resolves through import_map.json on Deno and node_modules in the
+// browser build, so keep this file free of runtime-specific imports.
+import { z } from "zod";
+
+// Links that end up in an href: anything but http(s), such as javascript:,
+// would run or open something other than a web page when clicked
+export function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export const HttpUrlSchema = z.string().max(2000).refine(isHttpUrl, "Must be an http or https URL");
+
+export const BulletPointSchema = z.object({
+  point: z.string().trim().min(1, "Point text is empty"),
+  reference: z.string().default(""),
+  // Index into `Summary.chunking.chunks` when the summary was built from chunks
+  chunkIndex: z.number().int().nonnegative().optional(),
+  // Verified offsets of `reference` in the source, set by summarize-content
+  start: z.number().int().nonnegative().optional(),
+  end: z.number().int().nonnegative().optional(),
+  // Seconds into the media the reference is spoken at, for transcripts
+  timestamp: z.number().nonnegative().optional(),
+  // Playlist roll-ups: the videos in `playlist.videos` the point draws on
+  videoIndexes: z.array(z.number().int().nonnegative()).optional(),
+});
+
+// The overview and points a model is asked to produce
+export const ModelSummarySchema = z.object({
+  summary: z.string(),
+  bulletPoints: z.array(BulletPointSchema),
+}).refine(
+  (summary) => summary.summary.trim().length > 0 || summary.bulletPoints.length > 0,
+  "Response has neither an overview nor any points"
+);
+
+export const SummaryOptionsSchema = z.object({
+  length: z.enum(["tldr", "standard", "detailed"]),
+  style: z.enum(["neutral", "executive", "academic", "eli5"]),
+  audience: z.string().optional(),
+  // Overrides the number of points implied by `length`
+  bulletCount: z.number().int().positive().optional(),
+  // Language to write the summary in, e.g. a video's caption language
+  outputLanguage: z.string().optional(),
+});
+
+// A user-defined summarization recipe. `prompt` may contain {{content}},
+// {{url}} and {{language}}; with an `outputSchema` the model returns JSON that
+// must validate against it instead of the usual overview and bullet points.
+export const PromptTemplateSchema = z.object({
+  name: z.string(),
+  prompt: z.string(),
+  outputSchema: z.record(z.unknown()).optional(),
+});
+
+// A window of the source summarized on its own; offsets are in characters
+export const SummaryChunkSchema = z.object({
+  index: z.number().int().nonnegative(),
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative(),
+});
+
+// Summary of one chapter of a video or podcast; times are in seconds
+export const ChapterSummarySchema = z.object({
+  title: z.string(),
+  start: z.number().nonnegative(),
+  end: z.number().nonnegative(),
+  summary: z.string(),
+  bulletPoints: z.array(BulletPointSchema),
+});
+
+// One video of a summarized playlist; videos that failed have an error instead
+export const PlaylistVideoSummarySchema = z.object({
+  title: z.string(),
+  url: HttpUrlSchema,
+  summary: z.string(),
+  bulletPoints: z.array(BulletPointSchema),
+  // Set instead of a summary when the video couldn't be summarized
+  error: z.string().optional(),
+});
+
+// A complete summary as returned by summarize-content and kept in history.
+// Template summaries with an output schema have no overview or points.
+export const SummarySchema = z.object({
+  summary: z.string(),
+  bulletPoints: z.array(BulletPointSchema),
+  // Options the summary was generated with, as applied by the edge function
+  options: SummaryOptionsSchema.optional(),
+  // Template the summary was generated with, with the language it was rendered for
+  template: PromptTemplateSchema.extend({ language: z.string() }).optional(),
+  // Output of a template with an output schema, already validated against it
+  structuredOutput: z.unknown().optional(),
+  // Present when the content was too long for one pass and was summarized
+  // in overlapping chunks that were merged afterwards
+  chunking: z.object({
+    chunkCount: z.number().int().positive(),
+    chunks: z.array(SummaryChunkSchema),
+  }).optional(),
+  // ISO timestamp set by the edge function when the summary was generated
+  generatedAt: z.string().optional(),
+  // Per-chapter summaries of long videos, from the video's own chapter
+  // markers or from topics detected in the transcript
+  chapters: z.object({
+    source: z.enum(["video", "topics"]),
+    items: z.array(ChapterSummarySchema),
+  }).optional(),
+  // Roll-ups of a YouTube playlist or channel, with each video's own summary
+  playlist: z.object({
+    title: z.string(),
+    url: HttpUrlSchema,
+    videos: z.array(PlaylistVideoSummarySchema),
+  }).optional(),
+});
+
+export type BulletPoint = z.infer<typeof BulletPointSchema>;
+export type SummaryOptions = z.infer<typeof SummaryOptionsSchema>;
+export type SummaryLength = SummaryOptions["length"];
+export type SummaryStyle = SummaryOptions["style"];
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+export type SummaryChunk = z.infer<typeof SummaryChunkSchema>;
+export type ChapterSummary = z.infer<typeof ChapterSummarySchema>;
+export type PlaylistVideoSummary = z.infer<typeof PlaylistVideoSummarySchema>;
+export type Summary = z.infer<typeof SummarySchema>;
+
+// Raised when model output is still invalid after repair, with one line per
+// problem so the message says what was wrong rather than "Unexpected token"
+export class OutputValidationError extends Error {
+  constructor(message: string, public issues: string[]) {
+    super(issues.length > 0 ? `${message}: ${issues.slice(0, 3).join("; ")}` : message);
+    this.name = "OutputValidationError";
+  }
+}
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
+}
+
+// Models sometimes wrap JSON in markdown fences, add a sentence around it or
+// leave trailing commas. Undo those before giving up on the response.
+export function repairJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to the repairs below
+  }
+
+  let candidate = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const start = candidate.search(/[[{]/);
+  const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"));
+  if (start !== -1 && end > start) candidate = candidate.slice(start, end + 1);
+  candidate = candidate.replace(/,\s*([}\]])/g, "$1");
+
+  return JSON.parse(candidate);
+}
+
+export function parseModelJson<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParseResult<T> {
+  let value: unknown;
+  try {
+    value = repairJson(text);
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response is not valid JSON (${error instanceof Error ? error.message : String(error)})`],
+    };
+  }
+
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: formatIssues(result.error) };
+}
+
+// Ties a comparison statement to the source it came from and the quote it rests on
+const SourceAttributionSchema = z.object({
+  sourceIndex: z.number().int().nonnegative(),
+  reference: z.string().default(""),
+});
+
+const ComparisonSourceSchema = z.object({
+  title: z.string(),
+  url: z.string().optional(),
+  summary: SummarySchema,
+});
+
+export const ComparisonSchema = z.object({
+  overview: z.string(),
+  sources: z.array(ComparisonSourceSchema).min(2, "A comparison needs at least two sources"),
+  // Points made by two or more sources
+  agreements: z.array(z.object({
+    point: z.string(),
+    attributions: z.array(SourceAttributionSchema),
+  })),
+  // Topics on which the sources take different positions
+  disagreements: z.array(z.object({
+    topic: z.string(),
+    positions: z.array(SourceAttributionSchema.extend({ position: z.string() })),
+  })),
+  // Points only one source makes
+  unique: z.array(SourceAttributionSchema.extend({ point: z.string() })),
+  options: SummaryOptionsSchema.optional(),
+});
+
+export type SourceAttribution = z.infer<typeof SourceAttributionSchema>;
+export type ComparisonSource = z.infer<typeof ComparisonSourceSchema>;
+export type Comparison = z.infer<typeof ComparisonSchema>;
+
+// Answer from ask-document. `start`/`end` are offsets of the quote in the
+// source text, set by the edge function once it has found the quote there.
+export const DocumentAnswerSchema = z.object({
+  answer: z.string().trim().min(1, "Answer is empty"),
+  answerable: z.boolean().default(true),
+  citations: z.array(z.object({
+    quote: z.string().trim().min(1, "Citation quote is empty"),
+    start: z.number().int().nonnegative().optional(),
+    end: z.number().int().nonnegative().optional(),
+  })).default([]),
+});
+
+export type DocumentAnswer = z.infer<typeof DocumentAnswerSchema>;
@@ -0,0 +1,108 @@
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import {
+  EMPTY_TRANSCRIPT,
+  parseJson3,
+  parsePodcastJson,
+  parseSrt,
+  parseSrv3,
+  parseTimedTextXml,
+  parseTranscriptFile,
+  parseVtt,
+  parseYouTubeCaptions,
+  type Transcript,
+} from "./transcriptFormats.ts";
+
+// Caption payloads saved from YouTube and from podcast and video hosts
+const fixture = (name: string) => Deno.readTextFile(new URL(`./testdata/${name}`, import.meta.url));
+
+Deno.test('parseTimedTextXml decodes double-encoded entities and drops repeated and empty cues', async () => {
+  const transcript = parseTimedTextXml(await fixture('youtube-timedtext.xml'));
+  deepStrictEqual(transcript.timeline, [
+    { time: '0:00', text: 'hey everyone welcome back to the channel' },
+    { time: '0:03', text: `today we're looking at how a "sourdough starter" actually works` },
+    { time: '0:07', text: 'all you need is flour & water' },
+    { time: '1:05', text: 'feed it once a day <at room temperature>' },
+    { time: '1:02:05', text: 'thanks for watching' },
+  ]);
+  strictEqual(transcript.text, transcript.timeline.map(item => item.text).join(' '));
+});
+
+Deno.test('parseSrv3 joins word segments and skips empty and self-closing lines', async () => {
+  deepStrictEqual(parseSrv3(await fixture('youtube-srv3.xml')).timeline, [
+    { time: '0:00', text: 'hey everyone welcome back' },
+    { time: '0:03', text: "today we're looking at starters" },
+    { time: '1:05', text: 'flour & water' },
+  ]);
+});
+
+Deno.test('parseJson3 joins segments and skips events without text or a start time', async () => {
+  deepStrictEqual(parseJson3(await fixture('youtube-json3.json')).timeline, [
+    { time: '0:00', text: 'hey everyone welcome back' },
+    { time: '0:03', text: "today we're looking at starters" },
+    { time: '1:05', text: 'flour & water' },
+  ]);
+});
+
+Deno.test('parseVtt skips header, note and style blocks and strips cue tags', async () => {
+  deepStrictEqual(parseVtt(await fixture('captions.vtt')).timeline, [
+    { time: '0:00', text: 'Welcome back to the show.' },
+    { time: '0:03', text: 'Today: how a sourdough starter actually works.' },
+    { time: '1:02:05', text: 'Thanks for watching & see you next week.' },
+  ]);
+});
+
+Deno.test('parseSrt reads comma timings and CRLF line endings', async () => {
+  const srt = await fixture('captions.srt');
+  const expected = [
+    { time: '0:00', text: 'Welcome back to the show.' },
+    { time: '0:03', text: 'Today: how a sourdough starter actually works.' },
+    { time: '1:05', text: "Flour & water, that's all." },
+    { time: '1:02:05', text: 'Thanks for watching.' },
+  ];
+  deepStrictEqual(parseSrt(srt).timeline, expected);
+  deepStrictEqual(parseSrt(srt.replace(/\n/g, '\r\n')).timeline, expected);
+});
+
+Deno.test('parsePodcastJson skips segments without a body', async () => {
+  deepStrictEqual(parsePodcastJson(await fixture('podcast-transcript.json')).timeline, [
+    { time: '0:00', text: 'Welcome to the show.' },
+    { time: '0:03', text: "Today we're talking about sourdough." },
+    { time: '1:09', text: "Flour & water, that's all it takes." },
+    { time: '0:00', text: 'No start time on this one.' },
+  ]);
+});
+
+Deno.test('parsers return an empty transcript for bodies in another format', async () => {
+  deepStrictEqual(parseVtt(await fixture('captions.srt')), EMPTY_TRANSCRIPT);
+  deepStrictEqual(parseSrt('no cues here'), EMPTY_TRANSCRIPT);
+  deepStrictEqual(parseTimedTextXml(''), EMPTY_TRANSCRIPT);
+  deepStrictEqual(parseSrv3('<html></html>'), EMPTY_TRANSCRIPT);
+  deepStrictEqual(parseJson3('<html>not json</html>'), EMPTY_TRANSCRIPT);
+  deepStrictEqual(parsePodcastJson('{"segments": "none"}'), EMPTY_TRANSCRIPT);
+});
+
+Deno.test('parseYouTubeCaptions picks the parser from the body', async () => {
+  const formats: Array<[string, (body: string) => Transcript]> = [
+    ['youtube-timedtext.xml', parseTimedTextXml],
+    ['youtube-srv3.xml', parseSrv3],
+    ['youtube-json3.json', parseJson3],
+    ['captions.vtt', parseVtt],
+  ];
+  for (const [name, parse] of formats) {
+    const body = await fixture(name);
+    const expected = parse(body);
+    strictEqual(expected.timeline.length > 0, true, name);
+    deepStrictEqual(parseYouTubeCaptions(body), expected, name);
+    // Leading whitespace before the body doesn't change the format
+    deepStrictEqual(parseYouTubeCaptions(`\n  ${body}`), expected, name);
+  }
+});
+
+Deno.test('parseTranscriptFile picks the parser from the MIME type, then the body', async () => {
+  const srt = await fixture('captions.srt');
+  const podcast = await fixture('podcast-transcript.json');
+  deepStrictEqual(parseTranscriptFile(srt, 'application/x-subrip'), parseSrt(srt));
+  deepStrictEqual(parseTranscriptFile(srt, 'text/plain'), parseSrt(srt));
+  deepStrictEqual(parseTranscriptFile(podcast, 'application/json; charset=utf-8'), parsePodcastJson(podcast));
+  deepStrictEqual(parseTranscriptFile('<p>Hello &amp; welcome</p>', 'text/html'), { text: 'Hello & welcome', timeline: [] });
+});
@@ -0,0 +1,193 @@
+// Caption and transcript file parsers, for YouTube's timedtext formats as well
+// as the WebVTT, SubRip and JSON files other media links to. Every parser
+// returns the full text plus a timeline of cues with display timestamps
+// ("1:05", "1:02:03"), the shape the transcript functions send to the client.
+
+export interface TimelineItem {
+  time: string;
+  text: string;
+}
+
+export interface Transcript {
+  text: string;
+  timeline: TimelineItem[];
+}
+
+export const EMPTY_TRANSCRIPT: Transcript = { text: '', timeline: [] };
+
+export function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+    : `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+// "01:02:03.500", "02:03.500" or SRT's "01:02:03,500"
+function parseClockTime(value: string): number {
+  const parts = value.trim().replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+const decodeEntities = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;|&apos;/g, "'")
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&');
+
+const cleanCueText = (text: string) => decodeEntities(text.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+
+function fromCues(cues: Array<{ start: number; text: string }>): Transcript {
+  const timeline: TimelineItem[] = [];
+  for (const cue of cues) {
+    const text = cleanCueText(cue.text);
+    // Rolling captions repeat the previous line, keep it once
+    if (!text || timeline[timeline.length - 1]?.text === text) continue;
+    timeline.push({ time: formatTimestamp(cue.start), text });
+  }
+  return { text: timeline.map(item => item.text).join(' '), timeline };
+}
+
+const CUE_TIMING = /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+// WebVTT and SubRip share the cue layout: an optional identifier line, a
+// timing line, then the cue text up to a blank line
+function parseCueBlocks(source: string): Transcript {
+  const cues: Array<{ start: number; text: string }> = [];
+  for (const block of source.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex === -1) continue;
+    const start = parseClockTime(lines[timingIndex].match(CUE_TIMING)![1]);
+    cues.push({ start, text: lines.slice(timingIndex + 1).join(' ') });
+  }
+  return fromCues(cues);
+}
+
+export function parseVtt(vtt: string): Transcript {
+  if (!vtt || !vtt.includes('WEBVTT')) return EMPTY_TRANSCRIPT;
+  return parseCueBlocks(vtt);
+}
+
+export function parseSrt(srt: string): Transcript {
+  if (!srt || !CUE_TIMING.test(srt)) return EMPTY_TRANSCRIPT;
+  return parseCueBlocks(srt);
+}
+
+// The Podcasting 2.0 JSON transcript format: { segments: [{ startTime, body, speaker? }] }
+export function parsePodcastJson(json: string): Transcript {
+  try {
+    const data = JSON.parse(json);
+    const segments: Array<{ startTime?: number; body?: string; speaker?: string }> = Array.isArray(data?.segments) ? data.segments : [];
+    return fromCues(segments
+      .filter(segment => typeof segment.body === 'string')
+      .map(segment => ({ start: Number(segment.startTime) || 0, text: segment.body! })));
+  } catch (e) {
+    console.error('Failed to parse JSON transcript:', e);
+    return EMPTY_TRANSCRIPT;
+  }
+}
+
+// Plain text and HTML transcripts carry no timing, so the timeline stays empty
+export function parsePlainTranscript(text: string): Transcript {
+  const clean = decodeEntities(text.replace(/<(script|style)[\s\S]*?<\/\1>/gi, '').replace(/<[^>]*>/g, ' '))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n\n')
+    .trim();
+  return { text: clean, timeline: [] };
+}
+
+// YouTube's default timedtext XML: <text start="1.2" dur="3.4">…</text>, in
+// seconds. Its cue text is entity-encoded twice ("&amp;#39;").
+export function parseTimedTextXml(xml: string): Transcript {
+  if (!xml || !xml.includes('<text')) return EMPTY_TRANSCRIPT;
+  return fromCues([...xml.matchAll(/<text\b[^>]*\bstart="([\d.]+)"[^>]*>([\s\S]*?)<\/text>/g)]
+    .map(match => ({ start: parseFloat(match[1]), text: match[2].replace(/&amp;(?=#?\w+;)/g, '&') })));
+}
+
+// fmt=srv3: <p t="1200" d="3400">…</p>, in milliseconds. Auto-generated
+// captions split each line into <s> word segments, and end lines with empty
+// self-closing <p/> tags.
+export function parseSrv3(xml: string): Transcript {
+  if (!xml || !xml.includes('<p')) return EMPTY_TRANSCRIPT;
+  const cues: Array<{ start: number; text: string }> = [];
+  for (const match of xml.matchAll(/<p\b([^>]*?)(?<!\/)>([\s\S]*?)<\/p>/g)) {
+    const start = match[1].match(/\bt="(\d+)"/);
+    if (start) cues.push({ start: Number(start[1]) / 1000, text: match[2] });
+  }
+  return fromCues(cues);
+}
+
+// fmt=json3: { events: [{ tStartMs, segs: [{ utf8 }] }] }
+export function parseJson3(json: string): Transcript {
+  try {
+    const data = JSON.parse(json);
+    const events: Array<{ tStartMs?: number; segs?: Array<{ utf8?: string }> }> = Array.isArray(data?.events) ? data.events : [];
+    return fromCues(events
+      .filter(event => Array.isArray(event.segs) && typeof event.tStartMs === 'number')
+      .map(event => ({ start: event.tStartMs! / 1000, text: event.segs!.map(seg => seg.utf8 ?? '').join('') })));
+  } catch (e) {
+    console.error('Failed to parse json3 captions:', e);
+    return EMPTY_TRANSCRIPT;
+  }
+}
+
+// YouTube answers in whichever format the fmt parameter asked for, and
+// ignores it for some tracks, so the body decides
+export function parseYouTubeCaptions(body: string): Transcript {
+  const start = body.trimStart();
+  if (start.startsWith('WEBVTT')) return parseVtt(body);
+  if (start.startsWith('{')) return parseJson3(body);
+  if (/<timedtext\b[^>]*\bformat="3"/.test(body)) return parseSrv3(body);
+  return parseTimedTextXml(body);
+}
+
+// Picks a parser from the declared MIME type, falling back to sniffing the body
+export function parseTranscriptFile(body: string, type = ''): Transcript {
+  const mime = type.split(';')[0].trim().toLowerCase();
+  if (mime === 'text/vtt' || body.trimStart().startsWith('WEBVTT')) return parseVtt(body);
+  if (mime === 'application/x-subrip' || mime === 'application/srt' || mime === 'text/srt') return parseSrt(body);
+  if (mime.endsWith('json') || body.trimStart().startsWith('{')) return parsePodcastJson(body);
+  if (CUE_TIMING.test(body)) return parseSrt(body);
+  return parsePlainTranscript(body);
+}
+
+// "1:05" or "1:02:03" back to seconds
+export function parseTimestamp(time: string): number | null {
+  if (!/^\d+(:\d{1,2}){1,2}$/.test(time.trim())) return null;
+  return parseClockTime(time);
+}
+
+export interface LocatedCue {
+  // Character offset of the cue's text in the transcript
+  offset: number;
+  seconds: number;
+}
+
+// Finds each timeline cue in the transcript text, in order, so positions in
+// the text can be turned back into moments in the media
+export function locateTimeline(text: string, timeline: TimelineItem[]): LocatedCue[] {
+  const cues: LocatedCue[] = [];
+  let cursor = 0;
+  for (const item of timeline) {
+    const seconds = parseTimestamp(item.time);
+    const offset = item.text ? text.indexOf(item.text, cursor) : -1;
+    if (seconds === null || offset === -1) continue;
+    cues.push({ offset, seconds });
+    cursor = offset + item.text.length;
+  }
+  return cues;
+}
+
+// The start of the cue containing `offset`, or undefined before the first cue
+export function timestampAt(cues: LocatedCue[], offset: number): number | undefined {
+  let seconds: number | undefined;
+  for (const cue of cues) {
+    if (cue.offset > offset) break;
+    seconds = cue.seconds;
+  }
+  return seconds;
+}
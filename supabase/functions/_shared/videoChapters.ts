@@ -0,0 +1,69 @@
+// Chapter markers of a YouTube video. The watch page's initial data lists the
+// chapters YouTube shows in the player; otherwise they're read from the
+// description, where YouTube's own rule applies: at least three timestamps,
+// starting at 0:00.
+
+export interface VideoChapter {
+  title: string;
+  // Seconds from the start of the video
+  start: number;
+}
+
+const MIN_DESCRIPTION_CHAPTERS = 3;
+const TIMESTAMP = /(?:^|\s|\()((?:\d{1,2}:)?\d{1,2}:\d{2})(?=\)|\s|$)/;
+
+function toSeconds(time: string): number {
+  return time.split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+}
+
+function decodeJsonString(value: string): string {
+  try {
+    return JSON.parse(`"${value}"`);
+  } catch {
+    return value;
+  }
+}
+
+// "chapterRenderer":{"title":{"simpleText":"Intro"},"timeRangeStartMillis":0,...}
+export function parseChapterRenderers(watchHtml: string): VideoChapter[] {
+  const chapters: VideoChapter[] = [];
+  const seen = new Set<number>();
+  const pattern = /"chapterRenderer":\{"title":\{"simpleText":"((?:[^"\\]|\\.)*)"\},"timeRangeStartMillis":(\d+)/g;
+  for (const match of watchHtml.matchAll(pattern)) {
+    const start = Number(match[2]) / 1000;
+    // The same list appears more than once in the page data
+    if (seen.has(start)) continue;
+    seen.add(start);
+    chapters.push({ title: decodeJsonString(match[1]).trim(), start });
+  }
+  return chapters.sort((a, b) => a.start - b.start);
+}
+
+// Lines like "0:00 Intro", "12:30 - Results" or "Q&A (1:02:15)"
+export function parseDescriptionChapters(description: string): VideoChapter[] {
+  const chapters: VideoChapter[] = [];
+  for (const line of description.split(/\r?\n/)) {
+    const match = line.match(TIMESTAMP);
+    if (!match) continue;
+    const title = line
+      .replace(match[1], '')
+      .replace(/^[\s\-–—:|.)(\]]+|[\s\-–—:|([]+$/g, '')
+      .replace(/\(\s*\)/g, '')
+      .trim();
+    if (!title) continue;
+    chapters.push({ title, start: toSeconds(match[1]) });
+  }
+
+  const ascending = chapters.every((chapter, i) => i === 0 || chapter.start > chapters[i - 1].start);
+  if (chapters.length < MIN_DESCRIPTION_CHAPTERS || chapters[0].start !== 0 || !ascending) return [];
+  return chapters;
+}
+
+export function extractChapters(watchHtml: string | null, description: string | null): VideoChapter[] {
+  const fromPlayer = watchHtml ? parseChapterRenderers(watchHtml) : [];
+  if (fromPlayer.length > 1) return fromPlayer;
+
+  const embedded = watchHtml?.match(/"shortDescription":"((?:[^"\\]|\\.)*)"/);
+  const text = description ?? (embedded ? decodeJsonString(embedded[1]) : null);
+  return text ? parseDescriptionChapters(text) : [];
+}
@@ -0,0 +1,56 @@
+// Recognises the YouTube links people paste. Shared by youtube-transcript and
+// the web client, so it must stay free of Deno and browser APIs.
+
+export type YouTubeLink =
+  | { kind: 'video'; videoId: string }
+  | { kind: 'playlist'; playlistId: string }
+  // Channels are resolved to their uploads playlist by youtube-transcript;
+  // only /channel/ links carry the id, the others name a handle or user
+  | { kind: 'channel'; channelId: string | null; path: string };
+
+const YOUTUBE_HOSTS = /^(www\.|m\.|music\.)?youtube\.com$|^(www\.)?youtube-nocookie\.com$/;
+const VIDEO_ID = /^[a-zA-Z0-9_-]{11}$/;
+const PLAYLIST_ID = /^[a-zA-Z0-9_-]{2,64}$/;
+const CHANNEL_ID = /^UC[a-zA-Z0-9_-]{22}$/;
+// Path prefixes followed by a video id
+const VIDEO_PATHS = new Set(['embed', 'shorts', 'live', 'v', 'e']);
+
+export function parseYouTubeUrl(input: string): YouTubeLink | null {
+  const trimmed = input.trim();
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase();
+  const [first, second] = url.pathname.split('/').filter(Boolean);
+
+  if (host === 'youtu.be' || host === 'www.youtu.be') {
+    return first && VIDEO_ID.test(first) ? { kind: 'video', videoId: first } : null;
+  }
+  if (!YOUTUBE_HOSTS.test(host)) return null;
+
+  // A video opened from a playlist (watch?v=…&list=…) is still that video
+  const v = url.searchParams.get('v');
+  if (first === 'watch' && v && VIDEO_ID.test(v)) return { kind: 'video', videoId: v };
+  if (first && VIDEO_PATHS.has(first) && second && VIDEO_ID.test(second)) return { kind: 'video', videoId: second };
+
+  const list = url.searchParams.get('list');
+  if ((first === 'playlist' || first === 'watch') && list && PLAYLIST_ID.test(list)) {
+    return { kind: 'playlist', playlistId: list };
+  }
+
+  if (first === 'channel' && second && CHANNEL_ID.test(second)) {
+    return { kind: 'channel', channelId: second, path: `/channel/${second}` };
+  }
+  if (first?.startsWith('@') && first.length > 1) return { kind: 'channel', channelId: null, path: `/${first}` };
+  if ((first === 'c' || first === 'user') && second) return { kind: 'channel', channelId: null, path: `/${first}/${second}` };
+
+  return null;
+}
+
+export const youTubeVideoUrl = (videoId: string) => `https://www.youtube.com/watch?v=${videoId}`;
+
+// A channel's uploads are the playlist whose id swaps the "UC" prefix for "UU"
+export const uploadsPlaylistId = (channelId: string) => `UU${channelId.slice(2)}`;
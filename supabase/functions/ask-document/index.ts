@@ -0,0 +1,194 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { DocumentAnswerSchema, OutputValidationError, parseModelJson } from "../_shared/summarySchema.ts";
+import { alignQuote } from "../_shared/sourceAlignment.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Sources longer than MAX_CONTEXT are cut into passages and only the ones
+// that share the most words with the question are sent to the model.
+const MAX_CONTEXT = 24000;
+const PASSAGE_SIZE = 1500;
+const MAX_HISTORY_TURNS = 10;
+
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface Passage {
+  start: number;
+  end: number;
+}
+
+const systemPrompt = `You answer questions about a document using only the passages of it that you are given.
+Rules:
+1. Use only information stated in the passages. Do not use outside knowledge.
+2. If the passages do not contain the answer, say so plainly and set "answerable" to false.
+3. Support every claim with a citation: a short quote copied exactly, word for word, from the passages.
+4. Refer to citations in the answer with markers like [1], [2] in the order they appear in "citations".
+5. Structure your response as JSON with this format:
+{
+  "answer": "Answer text with citation markers [1]",
+  "answerable": true,
+  "citations": [
+    { "quote": "Exact quote from the document" }
+  ]
+}`;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { content, question, history } = await req.json();
+    console.log('Answering question, content length:', content?.length, 'history turns:', Array.isArray(history) ? history.length : 0);
+
+    if (!content || typeof content !== 'string') {
+      throw new Error('Content is required');
+    }
+    if (!question || typeof question !== 'string' || !question.trim()) {
+      throw new Error('Question is required');
+    }
+
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
+
+    const turns: ChatTurn[] = (Array.isArray(history) ? history : [])
+      .filter((turn): turn is ChatTurn =>
+        (turn?.role === 'user' || turn?.role === 'assistant') && typeof turn.content === 'string'
+      )
+      .slice(-MAX_HISTORY_TURNS);
+
+    // Earlier questions help retrieval for follow-ups like "why did they do that?"
+    const retrievalQuery = [...turns.filter(t => t.role === 'user').map(t => t.content), question].join(' ');
+    const passages = selectPassages(content, retrievalQuery);
+    const documentText = passages
+      .map(p => `[Passage from character ${p.start}]\n${content.slice(p.start, p.end)}`)
+      .join('\n\n');
+
+    const messages = [
+      { role: "system", content: `${systemPrompt}\n\nDocument passages:\n\n${documentText}` },
+      ...turns,
+      { role: "user", content: question.trim() },
+    ];
+
+    let lastIssues: string[] = [];
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${LOVABLE_API_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "google/gemini-2.5-flash",
+          messages,
+          response_format: { type: "json_object" },
+        }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
+            status: 429,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        if (response.status === 402) {
+          return new Response(JSON.stringify({ error: "Payment required. Please add credits to your workspace." }), {
+            status: 402,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        const errorText = await response.text();
+        console.error("AI gateway error:", response.status, errorText);
+        throw new Error("Failed to answer question");
+      }
+
+      const data = await response.json();
+      const text: string = data.choices?.[0]?.message?.content ?? '';
+      const result = parseModelJson(text, DocumentAnswerSchema);
+      if (result.success === false) {
+        console.log('Invalid answer from model:', result.issues);
+        lastIssues = result.issues;
+        messages.push(
+          { role: "assistant", content: text },
+          { role: "user", content: `Your response was invalid:\n- ${result.issues.join('\n- ')}\nReply again with only the corrected JSON.` }
+        );
+        continue;
+      }
+
+      // Only keep offsets for quotes that really occur in the source, so the
+      // client never highlights a passage the model made up
+      const citations = result.data.citations.map(citation => {
+        const span = alignQuote(content, citation.quote);
+        return span ? { quote: citation.quote, ...span } : { quote: citation.quote };
+      });
+      console.log('Answer generated, citations:', citations.length, 'verified:', citations.filter(c => 'start' in c).length);
+
+      return new Response(JSON.stringify({ answer: { ...result.data, citations } }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    throw new OutputValidationError("The model returned an invalid answer", lastIssues);
+
+  } catch (error) {
+    console.error("Error in ask-document:", error);
+    const errorMessage = error instanceof Error ? error.message : "An error occurred";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: error instanceof OutputValidationError ? 502 : 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
+
+function queryTerms(text: string): string[] {
+  return [...new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 3)
+  )];
+}
+
+function selectPassages(content: string, query: string): Passage[] {
+  if (content.length <= MAX_CONTEXT) {
+    return [{ start: 0, end: content.length }];
+  }
+
+  const passages: Passage[] = [];
+  let start = 0;
+  while (start < content.length) {
+    let end = Math.min(start + PASSAGE_SIZE, content.length);
+    if (end < content.length) {
+      const breakAt = content.lastIndexOf('. ', end);
+      if (breakAt > start + PASSAGE_SIZE / 2) end = breakAt + 2;
+    }
+    passages.push({ start, end });
+    start = end;
+  }
+
+  const terms = queryTerms(query);
+  const scored = passages.map(passage => {
+    const text = content.slice(passage.start, passage.end).toLowerCase();
+    const score = terms.reduce((sum, term) => sum + (text.includes(term) ? 1 : 0), 0);
+    return { passage, score };
+  });
+  scored.sort((a, b) => b.score - a.score);
+
+  const selected: Passage[] = [];
+  let budget = MAX_CONTEXT;
+  for (const { passage } of scored) {
+    const length = passage.end - passage.start;
+    if (length > budget) break;
+    selected.push(passage);
+    budget -= length;
+  }
+  return selected.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,57 @@
+import { DOMParser, type Element } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { NoTranscriptError, fetchCaptionFile, pickTrack, type TranscriptProvider } from "./provider.ts";
+
+// Pages with a plain <video> element and <track kind="captions"> WebVTT files
+
+const CAPTION_KINDS = new Set(['captions', 'subtitles']);
+
+interface CaptionTrack {
+  src: string;
+  language: string | null;
+  isDefault: boolean;
+}
+
+function findCaptionTracks(html: string, pageUrl: string): { tracks: CaptionTrack[]; title: string | null } {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  if (!document) return { tracks: [], title: null };
+
+  const tracks: CaptionTrack[] = [];
+  for (const node of Array.from(document.querySelectorAll('video track[src]'))) {
+    const track = node as Element;
+    // A track without a kind is subtitles
+    const kind = (track.getAttribute('kind') ?? 'subtitles').toLowerCase();
+    if (!CAPTION_KINDS.has(kind)) continue;
+    try {
+      tracks.push({
+        src: new URL(track.getAttribute('src')!, pageUrl).toString(),
+        language: track.getAttribute('srclang'),
+        isDefault: track.hasAttribute('default'),
+      });
+    } catch {
+      console.log('Skipping caption track with an invalid src:', track.getAttribute('src'));
+    }
+  }
+
+  const title = document.querySelector('meta[property="og:title"]')?.getAttribute('content')
+    ?? document.querySelector('title')?.textContent.trim()
+    ?? null;
+  return { tracks, title: title || null };
+}
+
+export const html5VideoProvider: TranscriptProvider = {
+  name: 'html5-video',
+
+  matchesDocument: (document) => /html/.test(document.contentType) && /<track\b/i.test(document.body),
+
+  async fetchTranscript({ document, lang }) {
+    const { tracks, title } = findCaptionTracks(document!.body, document!.url);
+    console.log(`Found ${tracks.length} caption tracks in <video> elements`);
+
+    // Without a language preference the page's default track wins
+    const track = lang ? pickTrack(tracks, lang) : tracks.find(t => t.isDefault) ?? pickTrack(tracks);
+    if (!track) throw new NoTranscriptError('The videos on this page have no caption tracks.');
+
+    const transcript = await fetchCaptionFile(track.src, 'text/vtt');
+    return { ...transcript, title, language: track.language };
+  },
+};
@@ -0,0 +1,82 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { FetchPolicyError, safeFetch, validateUrl, type SafeFetchResult } from "../_shared/safeFetch.ts";
+import { NoTranscriptError, USER_AGENT, type TranscriptProvider } from "./provider.ts";
+import { vimeoProvider } from "./vimeo.ts";
+import { html5VideoProvider } from "./html5Video.ts";
+import { podcastProvider } from "./podcast.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Transcripts for video and audio that isn't on YouTube. Returns the same
+// { text, timeline } as youtube-transcript, plus which provider found it.
+
+const PROVIDERS: TranscriptProvider[] = [vimeoProvider, podcastProvider, html5VideoProvider];
+
+const DOCUMENT_CONTENT_TYPES = [
+  'text/html', 'application/xhtml+xml',
+  'application/rss+xml', 'application/xml', 'text/xml',
+];
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { url, lang } = await req.json();
+    if (!url || typeof url !== 'string') {
+      throw new FetchPolicyError('INVALID_URL', 'URL is required');
+    }
+    console.log('Extracting media transcript from URL:', url, 'Preferred language:', lang);
+
+    const target = await validateUrl(url);
+    let provider = PROVIDERS.find(p => p.matchesUrl?.(target));
+    let document: SafeFetchResult | undefined;
+    if (!provider) {
+      const fetched = await safeFetch(url, {
+        contentTypes: DOCUMENT_CONTENT_TYPES,
+        maxBytes: MAX_DOCUMENT_BYTES,
+        headers: { 'User-Agent': USER_AGENT },
+      });
+      provider = PROVIDERS.find(p => p.matchesDocument?.(fetched));
+      document = fetched;
+    }
+    if (!provider) {
+      throw new NoTranscriptError('No video captions or podcast transcript were found at this link.');
+    }
+
+    console.log('Using transcript provider:', provider.name);
+    const transcript = await provider.fetchTranscript({ url: target, document, lang });
+    if (!transcript.text) {
+      throw new NoTranscriptError('The transcript is empty.');
+    }
+    console.log('Transcript extracted successfully, text length:', transcript.text.length, 'timeline items:', transcript.timeline.length);
+
+    return new Response(JSON.stringify({ ...transcript, provider: provider.name }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error extracting media transcript:', error);
+    const code = error instanceof NoTranscriptError ? 'NO_TRANSCRIPT'
+      : error instanceof FetchPolicyError ? error.code
+      : 'UPSTREAM_ERROR';
+    const status = error instanceof NoTranscriptError ? 404
+      : error instanceof FetchPolicyError ? error.status
+      : 500;
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Failed to extract transcript',
+        code,
+      }),
+      {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,75 @@
+import { NoTranscriptError, fetchCaptionFile, pickTrack, type TranscriptProvider } from "./provider.ts";
+
+// Podcast RSS feeds that link episode transcripts with the Podcasting 2.0
+// <podcast:transcript url="..." type="..." language="..."> tag. The newest
+// episode with a transcript is used.
+
+interface TranscriptLink {
+  url: string;
+  type: string;
+  language: string | null;
+}
+
+// Timed formats first, they fill the timeline
+const TYPE_PREFERENCE = ['text/vtt', 'application/x-subrip', 'application/srt', 'application/json', 'text/html', 'text/plain'];
+
+const typeRank = (type: string) => {
+  const index = TYPE_PREFERENCE.indexOf(type.toLowerCase());
+  return index === -1 ? TYPE_PREFERENCE.length : index;
+};
+
+function attributes(tag: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    result[match[1].toLowerCase()] = (match[3] ?? match[4]).replace(/&amp;/g, '&');
+  }
+  return result;
+}
+
+function elementText(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i'));
+  if (!match) return null;
+  return match[1].replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1').trim() || null;
+}
+
+function newestEpisodeWithTranscript(feed: string): { title: string | null; links: TranscriptLink[] } | null {
+  const items = feed.match(/<item\b[\s\S]*?<\/item>/gi) ?? [];
+  const episodes = items.map(item => ({
+    title: elementText(item, 'title'),
+    published: Date.parse(elementText(item, 'pubDate') ?? '') || 0,
+    links: Array.from(item.matchAll(/<podcast:transcript\b[^>]*>/gi))
+      .map(match => attributes(match[0]))
+      .filter(attrs => attrs.url)
+      .map(attrs => ({ url: attrs.url, type: attrs.type ?? '', language: attrs.language ?? null })),
+  })).filter(episode => episode.links.length > 0);
+
+  // Feeds are usually newest first, but not always
+  episodes.sort((a, b) => b.published - a.published);
+  return episodes[0] ?? null;
+}
+
+export const podcastProvider: TranscriptProvider = {
+  name: 'podcast-rss',
+
+  matchesDocument: (document) => /<rss\b/i.test(document.body.slice(0, 2000)) && /<item\b/i.test(document.body),
+
+  async fetchTranscript({ document, lang }) {
+    const episode = newestEpisodeWithTranscript(document!.body);
+    if (!episode) throw new NoTranscriptError('No episode in this podcast feed has a transcript.');
+    console.log(`Using transcript of episode "${episode.title}", ${episode.links.length} formats`);
+
+    // The language decides first, then the format
+    const language = pickTrack(episode.links, lang)?.language ?? null;
+    const link = episode.links
+      .filter(l => l.language === language)
+      .sort((a, b) => typeRank(a.type) - typeRank(b.type))[0];
+
+    const transcript = await fetchCaptionFile(link.url, link.type);
+    const channelTitle = elementText(document!.body.replace(/<item\b[\s\S]*<\/item>/gi, ''), 'title');
+    return {
+      ...transcript,
+      title: [channelTitle, episode.title].filter(Boolean).join(' – ') || null,
+      language,
+    };
+  },
+};
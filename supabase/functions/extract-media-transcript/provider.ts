@@ -0,0 +1,57 @@
+import { type SafeFetchResult, safeFetch } from "../_shared/safeFetch.ts";
+import { type Transcript, parseTranscriptFile } from "../_shared/transcriptFormats.ts";
+
+// A source of transcripts for one kind of media. Providers that recognise
+// their URLs (Vimeo) are asked first; the others look at the fetched page or
+// feed the URL points to.
+export interface TranscriptProvider {
+  name: string;
+  matchesUrl?(url: URL): boolean;
+  matchesDocument?(document: SafeFetchResult): boolean;
+  fetchTranscript(request: TranscriptRequest): Promise<MediaTranscript>;
+}
+
+export interface TranscriptRequest {
+  url: URL;
+  // The fetched page or feed, for providers matched by document
+  document?: SafeFetchResult;
+  // Preferred caption language, e.g. "en"
+  lang?: string;
+}
+
+export interface MediaTranscript extends Transcript {
+  title: string | null;
+  language: string | null;
+}
+
+export class NoTranscriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoTranscriptError';
+  }
+}
+
+export const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
+// Caption files are often served with generic types
+const CAPTION_CONTENT_TYPES = ['text/*', 'application/x-subrip', 'application/srt', 'application/json', 'application/octet-stream'];
+const MAX_CAPTION_BYTES = 5 * 1024 * 1024;
+
+export async function fetchCaptionFile(url: string, type?: string): Promise<Transcript> {
+  const file = await safeFetch(url, {
+    contentTypes: CAPTION_CONTENT_TYPES,
+    maxBytes: MAX_CAPTION_BYTES,
+    headers: { 'User-Agent': USER_AGENT },
+  });
+  return parseTranscriptFile(file.body, type || file.contentType);
+}
+
+// Of several caption tracks, the one in the preferred language, else English,
+// else the first
+export function pickTrack<T extends { language: string | null }>(tracks: T[], preferred?: string): T | null {
+  const base = (code: string | null) => (code ?? '').toLowerCase().split(/[-_]/)[0];
+  return (preferred ? tracks.find(track => base(track.language) === base(preferred)) : undefined)
+    ?? tracks.find(track => base(track.language) === 'en')
+    ?? tracks[0]
+    ?? null;
+}
@@ -0,0 +1,56 @@
+import { safeFetch } from "../_shared/safeFetch.ts";
+import { NoTranscriptError, USER_AGENT, fetchCaptionFile, pickTrack, type TranscriptProvider } from "./provider.ts";
+
+// Vimeo lists a video's text tracks in the player config, with signed links
+// to their WebVTT files
+
+interface VimeoTextTrack {
+  lang?: string;
+  label?: string;
+  kind?: string;
+  url?: string;
+}
+
+const VIMEO_HOSTS = /^(www\.|player\.)?vimeo\.com$/;
+
+// vimeo.com/123, vimeo.com/123/abcdef (unlisted), vimeo.com/channels/x/123,
+// player.vimeo.com/video/123?h=abcdef
+function parseVimeoUrl(url: URL): { id: string; hash: string | null } | null {
+  if (!VIMEO_HOSTS.test(url.hostname)) return null;
+  const segments = url.pathname.split('/').filter(Boolean);
+  const index = segments.findIndex(segment => /^\d{5,}$/.test(segment));
+  if (index === -1) return null;
+  const next = segments[index + 1];
+  const hash = url.searchParams.get('h') ?? (next && /^[0-9a-f]{6,}$/i.test(next) ? next : null);
+  return { id: segments[index], hash };
+}
+
+export const vimeoProvider: TranscriptProvider = {
+  name: 'vimeo',
+
+  matchesUrl: (url) => parseVimeoUrl(url) !== null,
+
+  async fetchTranscript({ url, lang }) {
+    const video = parseVimeoUrl(url)!;
+    const configUrl = `https://player.vimeo.com/video/${video.id}/config${video.hash ? `?h=${video.hash}` : ''}`;
+    console.log('Fetching Vimeo player config:', configUrl);
+
+    const response = await safeFetch(configUrl, {
+      contentTypes: ['application/json'],
+      headers: { 'User-Agent': USER_AGENT, 'Referer': 'https://vimeo.com/' },
+    });
+    const config = JSON.parse(response.body);
+    const tracks: VimeoTextTrack[] = (config?.request?.text_tracks ?? []).filter((track: VimeoTextTrack) => track.url);
+    console.log(`Found ${tracks.length} Vimeo text tracks`);
+
+    const track = pickTrack(tracks.map(track => ({ ...track, language: track.lang ?? null })), lang);
+    if (!track) throw new NoTranscriptError('This Vimeo video has no captions or subtitles.');
+
+    const transcript = await fetchCaptionFile(new URL(track.url!, 'https://player.vimeo.com').toString(), 'text/vtt');
+    return {
+      ...transcript,
+      title: config?.video?.title ?? null,
+      language: track.language,
+    };
+  },
+};
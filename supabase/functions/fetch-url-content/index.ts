@@ -1,10 +1,41 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { extractArticle, type Article } from "./readability.ts";
+import { findNextPageUrl } from "./pagination.ts";
+import { FetchPolicyError, safeFetch } from "../_shared/safeFetch.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+const PAGE_CONTENT_TYPES = ['text/html', 'application/xhtml+xml', 'text/plain'];
+// Upper bound for multi-page articles, whatever the client asks for
+const MAX_PAGES = 10;
+// For all pages together; no further pages are fetched once it runs out
+const TOTAL_TIMEOUT_MS = 40000;
+// Not worth starting a page fetch with less time than this left
+const MIN_PAGE_TIMEOUT_MS = 2000;
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+const fetchPage = (url: string, timeoutMs = FETCH_TIMEOUT_MS) => safeFetch(url, {
+  contentTypes: PAGE_CONTENT_TYPES,
+  maxBytes: MAX_PAGE_BYTES,
+  timeoutMs,
+  maxRedirects: MAX_REDIRECTS,
+  headers: { 'User-Agent': USER_AGENT },
+});
+
+const toArticle = (body: string, contentType: string): Article => contentType.startsWith('text/plain')
+  ? { text: body, title: null, byline: null, publishedAt: null, language: null, siteName: null, excerpt: null }
+  : extractArticle(body);
+
+// "[Page 2]" on its own line; the client reads these back to tell which page a
+// passage came from
+const pageMarker = (page: number) => `[Page ${page}]`;
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -12,30 +43,62 @@ serve(async (req) => {
   }
 
   try {
-    const { url } = await req.json();
+    const { url, maxPages } = await req.json();
 
-    if (!url) {
-      throw new Error('URL is required');
+    if (!url || typeof url !== 'string') {
+      throw new FetchPolicyError('INVALID_URL', 'URL is required');
     }
+    const pageLimit = Math.min(Math.max(Math.floor(Number(maxPages) || 1), 1), MAX_PAGES);
 
-    console.log('Fetching content from URL:', url);
+    console.log('Fetching content from URL:', url, 'page limit:', pageLimit);
 
-    // Fetch the URL content
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      }
-    });
+    const deadline = Date.now() + TOTAL_TIMEOUT_MS;
+    const page = await fetchPage(url);
+    console.log('Successfully fetched HTML content, length:', page.body.length);
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch URL: ${response.status} ${response.statusText}`);
+    const article = toArticle(page.body, page.contentType);
+    console.log('Extracted article text, length:', article.text.length, 'title:', article.title);
+
+    const pages = [{ url: page.url, text: article.text }];
+    const visited = new Set([url, page.url]);
+    let current = page;
+    while (pages.length < pageLimit && !current.contentType.startsWith('text/plain')) {
+      const nextUrl = findNextPageUrl(current.body, current.url);
+      if (!nextUrl || visited.has(nextUrl)) break;
+      visited.add(nextUrl);
+
+      const remaining = deadline - Date.now();
+      if (remaining < MIN_PAGE_TIMEOUT_MS) {
+        console.log('Out of time, stopped following pages at', nextUrl);
+        break;
+      }
+      try {
+        current = await fetchPage(nextUrl, Math.min(FETCH_TIMEOUT_MS, remaining));
+      } catch (error) {
+        // The pages fetched so far are still worth summarizing
+        console.log('Stopped following pages at', nextUrl, error instanceof Error ? error.message : error);
+        break;
+      }
+      visited.add(current.url);
+      const text = toArticle(current.body, current.contentType).text;
+      console.log('Fetched page', pages.length + 1, current.url, 'text length:', text.length);
+      pages.push({ url: current.url, text });
     }
 
-    const html = await response.text();
-    console.log('Successfully fetched HTML content, length:', html.length);
+    const text = pages.length > 1
+      ? pages.map((p, index) => `${pageMarker(index + 1)}\n\n${p.text}`).join('\n\n')
+      : article.text;
 
+    // The first page's raw HTML is still returned so the client can look for
+    // embedded videos; later pages' would multiply the response size
     return new Response(
-      JSON.stringify({ html }),
+      JSON.stringify({
+        ...article,
+        html: page.body,
+        url: page.url,
+        text,
+        pages: pages.map(p => p.url),
+      }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200 
@@ -45,13 +108,15 @@ serve(async (req) => {
   } catch (error) {
     console.error('Error fetching URL content:', error);
     const errorMessage = error instanceof Error ? error.message : 'Failed to fetch URL content';
+    const code = error instanceof FetchPolicyError ? error.code : 'UPSTREAM_ERROR';
     return new Response(
       JSON.stringify({ 
-        error: errorMessage
+        error: errorMessage,
+        code
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400 
+        status: error instanceof FetchPolicyError ? error.status : 400
       }
     );
   }
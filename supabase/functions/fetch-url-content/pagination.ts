@@ -0,0 +1,111 @@
+import { DOMParser, type Element } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+
+// Finds the link to the next page of a multi-page article, trying in order:
+// rel="next", links labelled "Next", and a link to the same URL with the page
+// number ("?page=2", "/page/2/") incremented. Only links on the same site are
+// followed.
+
+const NEXT_TEXT = /^(next|next page|next part|older|older posts|continue|weiter|suivant|siguiente|volgende)?\s*[›»→>]*$/i;
+const PAGINATION_CONTAINER = /pag(e|ination|er)/i;
+const PAGE_PARAMS = ['page', 'pg', 'paged'];
+const PATH_PAGE = /\/page\/(\d+)\/?$/i;
+
+const sameSite = (a: URL, b: URL) => a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '');
+
+const withoutHash = (url: URL) => {
+  const copy = new URL(url);
+  copy.hash = '';
+  return copy.toString();
+};
+
+function resolve(href: string | null, base: URL): URL | null {
+  if (!href || href.startsWith('#') || /^(javascript|mailto):/i.test(href)) return null;
+  try {
+    const url = new URL(href, base);
+    if (!/^https?:$/.test(url.protocol) || !sameSite(url, base) || withoutHash(url) === withoutHash(base)) return null;
+    return url;
+  } catch {
+    return null;
+  }
+}
+
+const relIncludesNext = (el: Element) => (el.getAttribute('rel') ?? '').toLowerCase().split(/\s+/).includes('next');
+
+function isInPagination(el: Element): boolean {
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    const names = `${node.getAttribute('class') ?? ''} ${node.getAttribute('id') ?? ''} ${node.getAttribute('aria-label') ?? ''}`;
+    if (PAGINATION_CONTAINER.test(names) || node.tagName === 'NAV') return true;
+  }
+  return false;
+}
+
+function isNextLabel(anchor: Element): boolean {
+  const text = anchor.textContent.replace(/\s+/g, ' ').trim();
+  const label = anchor.getAttribute('aria-label') ?? anchor.getAttribute('title') ?? '';
+  const names = `${anchor.getAttribute('class') ?? ''} ${anchor.getAttribute('id') ?? ''}`;
+  if (/next page|next article page/i.test(label)) return true;
+  if (text && text.length <= 25 && NEXT_TEXT.test(text) && /\S/.test(text)) {
+    // Bare arrows and "continue" are only trusted inside a pagination block
+    return /next|older/i.test(text) || isInPagination(anchor);
+  }
+  return /\bnext\b/i.test(names) && isInPagination(anchor);
+}
+
+// The URL of the page after `url` if it uses a recognisable page number
+function incrementPage(url: URL): string[] {
+  const candidates: string[] = [];
+  for (const param of PAGE_PARAMS) {
+    const value = url.searchParams.get(param);
+    if (value !== null && /^\d+$/.test(value)) {
+      const next = new URL(url);
+      next.searchParams.set(param, String(Number(value) + 1));
+      candidates.push(withoutHash(next));
+    }
+  }
+  const pathMatch = url.pathname.match(PATH_PAGE);
+  if (pathMatch) {
+    const next = new URL(url);
+    next.pathname = url.pathname.replace(PATH_PAGE, `/page/${Number(pathMatch[1]) + 1}/`);
+    candidates.push(withoutHash(next));
+  }
+  if (candidates.length === 0) {
+    // First page without a number: page two is usually "?page=2" or "/page/2/"
+    const query = new URL(url);
+    query.searchParams.set('page', '2');
+    candidates.push(withoutHash(query));
+    const path = new URL(url);
+    path.pathname = `${url.pathname.replace(/\/$/, '')}/page/2/`;
+    candidates.push(withoutHash(path));
+  }
+  return candidates;
+}
+
+export function findNextPageUrl(html: string, pageUrl: string): string | null {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  if (!document) return null;
+  const base = new URL(pageUrl);
+
+  for (const node of Array.from(document.querySelectorAll('link, a'))) {
+    const el = node as Element;
+    if (relIncludesNext(el)) {
+      const url = resolve(el.getAttribute('href'), base);
+      if (url) return url.toString();
+    }
+  }
+
+  const anchors = Array.from(document.querySelectorAll('a[href]')) as unknown as Element[];
+  for (const anchor of anchors) {
+    if (isNextLabel(anchor)) {
+      const url = resolve(anchor.getAttribute('href'), base);
+      if (url) return url.toString();
+    }
+  }
+
+  const expected = new Set(incrementPage(base));
+  for (const anchor of anchors) {
+    const url = resolve(anchor.getAttribute('href'), base);
+    if (url && expected.has(withoutHash(url))) return url.toString();
+  }
+
+  return null;
+}
@@ -0,0 +1,295 @@
+import { DOMParser, type Element, type HTMLDocument } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+
+// A small Readability-style extractor: strips page chrome, scores blocks of
+// text by how much prose they contain, keeps the best container and the
+// siblings that belong to it, then writes it out as plain text with headings
+// ("## Heading"), list items ("- item") and blank lines between paragraphs.
+
+export interface ArticleMetadata {
+  title: string | null;
+  byline: string | null;
+  publishedAt: string | null;
+  language: string | null;
+  siteName: string | null;
+  excerpt: string | null;
+}
+
+export interface Article extends ArticleMetadata {
+  text: string;
+}
+
+// Extraction falls back to the whole page when the best candidate is shorter
+const MIN_ARTICLE_LENGTH = 250;
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const REMOVE_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button', 'input', 'select', 'textarea',
+  'nav', 'header', 'footer', 'aside', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="dialog"]', '[role="alert"]',
+  '[aria-hidden="true"]', '[hidden]',
+].join(',');
+
+const UNLIKELY = /cookie|consent|gdpr|banner|comment|disqus|sidebar|share|social|related|recommend|promo|newsletter|subscribe|signup|advert|sponsor|\bads?\b|ad-|popup|modal|overlay|menu|breadcrumb|masthead|footer|pagination|paywall|outbrain|taboola/i;
+const LIKELY = /article|body|content|entry|main|post|story|text|blog/i;
+const NEGATIVE = /comment|meta|footer|footnote|share|social|related|widget|sidebar|promo|author-bio|tags?\b/i;
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'BLOCKQUOTE', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+  'LI', 'MAIN', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'TBODY', 'TD', 'TH', 'THEAD', 'TR', 'UL', 'BR', 'HR',
+]);
+
+const normalizeSpace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const classAndId = (el: Element) => `${el.getAttribute('class') ?? ''} ${el.getAttribute('id') ?? ''}`;
+
+function classWeight(el: Element): number {
+  const names = classAndId(el);
+  let weight = 0;
+  if (LIKELY.test(names)) weight += 25;
+  if (NEGATIVE.test(names)) weight -= 25;
+  return weight;
+}
+
+function linkDensity(el: Element): number {
+  const length = normalizeSpace(el.textContent).length;
+  if (length === 0) return 0;
+  const linkLength = Array.from(el.querySelectorAll('a'))
+    .reduce((sum, a) => sum + normalizeSpace((a as Element).textContent).length, 0);
+  return linkLength / length;
+}
+
+function meta(doc: HTMLDocument, ...selectors: string[]): string | null {
+  for (const selector of selectors) {
+    const value = doc.querySelector(selector)?.getAttribute('content')?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+// Article objects from schema.org JSON-LD, which many publishers embed
+function jsonLdArticle(doc: HTMLDocument): Record<string, unknown> | null {
+  for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const data = JSON.parse((script as Element).textContent);
+      const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.['@graph']) ? data['@graph'] : [data];
+      const article = items.find((item): item is Record<string, unknown> => {
+        const type = (item as Record<string, unknown>)?.['@type'];
+        return (Array.isArray(type) ? type : [type]).some(t => typeof t === 'string' && /Article|Posting|Report/.test(t));
+      });
+      if (article) return article;
+    } catch {
+      // Broken JSON-LD is common, the meta tags are tried instead
+    }
+  }
+  return null;
+}
+
+function authorName(author: unknown): string | null {
+  if (!author) return null;
+  if (typeof author === 'string') return author;
+  if (Array.isArray(author)) {
+    const names = author.map(authorName).filter(Boolean);
+    return names.length ? names.join(', ') : null;
+  }
+  const name = (author as Record<string, unknown>).name;
+  return typeof name === 'string' ? name : null;
+}
+
+function extractMetadata(doc: HTMLDocument): ArticleMetadata {
+  const ld = jsonLdArticle(doc);
+  const str = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+
+  const title = str(ld?.headline)
+    ?? meta(doc, 'meta[property="og:title"]', 'meta[name="twitter:title"]')
+    ?? (doc.querySelector('h1') ? normalizeSpace(doc.querySelector('h1')!.textContent) || null : null)
+    ?? (doc.querySelector('title') ? normalizeSpace(doc.querySelector('title')!.textContent) || null : null);
+
+  const bylineElement = doc.querySelector('[rel="author"], [itemprop="author"], .byline, .author');
+  const byline = authorName(ld?.author)
+    ?? meta(doc, 'meta[name="author"]', 'meta[property="article:author"]')
+    ?? (bylineElement ? normalizeSpace(bylineElement.textContent).replace(/^by\s+/i, '') || null : null);
+
+  const publishedAt = str(ld?.datePublished)
+    ?? meta(doc, 'meta[property="article:published_time"]', 'meta[name="date"]', 'meta[name="pubdate"]', 'meta[itemprop="datePublished"]')
+    ?? doc.querySelector('time[datetime]')?.getAttribute('datetime')?.trim()
+    ?? null;
+
+  const language = doc.documentElement?.getAttribute('lang')?.trim()
+    || meta(doc, 'meta[http-equiv="content-language"]', 'meta[property="og:locale"]')
+    || str(ld?.inLanguage);
+
+  return {
+    title,
+    byline: byline && byline.length <= 200 ? byline : null,
+    publishedAt,
+    language: language ? language.replace('_', '-') : null,
+    siteName: meta(doc, 'meta[property="og:site_name"]'),
+    excerpt: meta(doc, 'meta[name="description"]', 'meta[property="og:description"]'),
+  };
+}
+
+function removeClutter(body: Element) {
+  Array.from(body.querySelectorAll(REMOVE_SELECTORS)).forEach(el => (el as Element).remove());
+
+  // Walk a snapshot so removing an element doesn't skip its siblings
+  for (const node of Array.from(body.querySelectorAll('div, section, span, ul, ol, p, table'))) {
+    const el = node as Element;
+    if (!el.parentElement) continue;
+    const names = classAndId(el);
+    if (UNLIKELY.test(names) && !LIKELY.test(names)) el.remove();
+  }
+}
+
+function initialScore(el: Element): number {
+  switch (el.tagName) {
+    case 'ARTICLE':
+    case 'MAIN':
+      return 10;
+    case 'DIV':
+    case 'SECTION':
+      return 5;
+    case 'PRE':
+    case 'TD':
+    case 'BLOCKQUOTE':
+      return 3;
+    case 'FORM':
+    case 'OL':
+    case 'UL':
+    case 'DL':
+    case 'DD':
+    case 'DT':
+    case 'LI':
+      return -3;
+    default:
+      return 0;
+  }
+}
+
+function findTopCandidate(document: HTMLDocument, body: Element): Element | null {
+  const scores = new Map<Element, number>();
+  const addScore = (el: Element | null, score: number) => {
+    if (!el || el.tagName === 'HTML') return;
+    if (!scores.has(el)) scores.set(el, initialScore(el) + classWeight(el));
+    scores.set(el, scores.get(el)! + score);
+  };
+
+  for (const node of Array.from(body.querySelectorAll('p, pre, td, blockquote, li'))) {
+    const el = node as Element;
+    const text = normalizeSpace(el.textContent);
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    // Commas are a cheap signal for sentences rather than link lists or labels
+    const score = 1 + (text.match(/[,،、，]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+    addScore(el.parentElement, score);
+    addScore(el.parentElement?.parentElement ?? null, score / 2);
+  }
+
+  let top: Element | null = null;
+  let topScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el));
+    scores.set(el, adjusted);
+    if (adjusted > topScore) {
+      top = el;
+      topScore = adjusted;
+    }
+  }
+  if (!top) return null;
+
+  // Siblings that score well or read like prose are part of the same article
+  const parent = top.parentElement;
+  if (!parent) return top;
+  const threshold = Math.max(10, topScore * 0.2);
+  const container = document.createElement('div');
+  for (const sibling of Array.from(parent.children)) {
+    const el = sibling as Element;
+    const score = scores.get(el) ?? 0;
+    const text = normalizeSpace(el.textContent);
+    const isProse = el.tagName === 'P' && text.length > 80 && linkDensity(el) < 0.25;
+    if (el === top || score >= threshold || isProse) container.appendChild(el.cloneNode(true));
+  }
+  return container;
+}
+
+type TextNode = { nodeType: number; textContent: string };
+
+// Writes the element out as text, one block per paragraph, heading or list item
+function toText(root: Element): string {
+  const blocks: string[] = [];
+  let line = '';
+  // Marker for the block being collected, e.g. "## " or "  - "
+  let prefix = '';
+  const flush = () => {
+    const text = normalizeSpace(line);
+    if (text) blocks.push(prefix + text);
+    line = '';
+    prefix = '';
+  };
+
+  const walk = (node: Element | TextNode, listDepth: number) => {
+    if (node.nodeType === 3) {
+      line += node.textContent;
+      return;
+    }
+    if (node.nodeType !== 1) return;
+    const el = node as Element;
+    const tag = el.tagName;
+    const children = Array.from(el.childNodes) as unknown as TextNode[];
+
+    const heading = tag.match(/^H([1-6])$/);
+    if (heading) {
+      flush();
+      prefix = `${'#'.repeat(Number(heading[1]))} `;
+      line = el.textContent;
+      flush();
+      return;
+    }
+    if (tag === 'BLOCKQUOTE') {
+      flush();
+      prefix = '> ';
+      line = el.textContent;
+      flush();
+      return;
+    }
+    if (tag === 'LI') {
+      flush();
+      prefix = `${'  '.repeat(Math.max(listDepth - 1, 0))}- `;
+      children.forEach(child => walk(child, listDepth));
+      flush();
+      return;
+    }
+    if (tag === 'BR') {
+      flush();
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    const depth = tag === 'UL' || tag === 'OL' ? listDepth + 1 : listDepth;
+    children.forEach(child => walk(child, depth));
+    if (isBlock) flush();
+  };
+
+  walk(root, 0);
+  return blocks.join('\n\n');
+}
+
+export function extractArticle(html: string): Article {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  if (!document?.body) {
+    return { text: '', title: null, byline: null, publishedAt: null, language: null, siteName: null, excerpt: null };
+  }
+
+  const metadata = extractMetadata(document);
+  const body = document.body;
+  removeClutter(body);
+
+  const candidate = findTopCandidate(document, body);
+  let text = candidate ? toText(candidate) : '';
+  if (text.length < MIN_ARTICLE_LENGTH) {
+    console.log('Article candidate too short, using the whole page:', text.length);
+    text = toText(body);
+  }
+
+  return { ...metadata, text };
+}
@@ -1,10 +1,93 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { bodyFontSize, pageText, type PdfTextItem } from "./layout.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// A page with less selectable text than this is treated as a scanned image
+const MIN_PAGE_TEXT = 50;
+// Bookmarks returned, counting nested ones
+const MAX_OUTLINE_ITEMS = 200;
+
+interface OutlineNode {
+  title: string;
+  dest: string | unknown[] | null;
+  items: OutlineNode[];
+}
+
+// The parts of PDF.js's document proxy read here
+interface PdfDocument {
+  numPages: number;
+  getMetadata(): Promise<{ info: Record<string, unknown> }>;
+  getOutline(): Promise<OutlineNode[] | null>;
+  getDestination(id: string): Promise<unknown[] | null>;
+  getPageIndex(ref: unknown): Promise<number>;
+}
+
+interface OutlineItem {
+  title: string;
+  // 1-based; null when the bookmark points outside the document
+  page: number | null;
+  level: number;
+}
+
+// "D:20240131120000+01'00'" to "2024-01-31"
+const pdfDate = (value: unknown) => {
+  const match = typeof value === 'string' ? value.match(/^D:(\d{4})(\d{2})?(\d{2})?/) : null;
+  return match ? [match[1], match[2] ?? '01', match[3] ?? '01'].join('-') : undefined;
+};
+
+const infoText = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+async function readMetadata(document: PdfDocument) {
+  try {
+    const { info } = await document.getMetadata();
+    return {
+      title: infoText(info.Title),
+      author: infoText(info.Author),
+      subject: infoText(info.Subject),
+      keywords: infoText(info.Keywords),
+      createdAt: pdfDate(info.CreationDate),
+    };
+  } catch (error) {
+    console.error('Could not read PDF metadata:', error);
+    return {};
+  }
+}
+
+async function destinationPage(document: PdfDocument, dest: OutlineNode['dest']): Promise<number | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await document.getDestination(dest) : dest;
+    const ref = explicit?.[0];
+    if (ref === undefined || ref === null) return null;
+    // Destinations name their page by reference, or by index in some files
+    return (typeof ref === 'number' ? ref : await document.getPageIndex(ref)) + 1;
+  } catch {
+    return null;
+  }
+}
+
+// Bookmarks in document order, nesting flattened into levels
+async function readOutline(document: PdfDocument): Promise<OutlineItem[]> {
+  const items: OutlineItem[] = [];
+  const visit = async (nodes: OutlineNode[], level: number) => {
+    for (const node of nodes) {
+      if (items.length >= MAX_OUTLINE_ITEMS) return;
+      const title = node.title.trim();
+      if (title) items.push({ title, page: await destinationPage(document, node.dest), level });
+      await visit(node.items ?? [], level + 1);
+    }
+  };
+  try {
+    await visit(await document.getOutline() ?? [], 0);
+  } catch (error) {
+    console.error('Could not read PDF outline:', error);
+  }
+  return items;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -34,46 +117,45 @@ serve(async (req) => {
     const document = await getDocument({
       data: bytes,
       useSystemFonts: true,
-    }).promise;
+    }).promise as PdfDocument & {
+      getPage(pageNum: number): Promise<{ view: number[]; getTextContent(): Promise<{ items: unknown[] }> }>;
+    };
     
     console.log('PDF loaded, pages:', document.numPages);
 
-    let fullText = '';
-    
-    // Extract text from each page
+    const pages: Array<{ items: PdfTextItem[]; view: number[] }> = [];
     for (let pageNum = 1; pageNum <= document.numPages; pageNum++) {
       const page = await document.getPage(pageNum);
       const textContent = await page.getTextContent();
-      
-      // Concatenate all text items
-      const pageText = (textContent.items as any[])
-        .map((item: any) => item.str)
-        .join(' ');
-      
-      fullText += pageText + '\n';
+      pages.push({ items: (textContent.items as PdfTextItem[]).filter(item => 'str' in item), view: page.view });
     }
 
-    console.log('Extracted text length:', fullText.length, 'pages:', document.numPages);
-
-    if (!fullText || fullText.trim().length < 50) {
-      console.log('PDF appears to be scanned or has minimal text');
-      
-      const warningMessage = `⚠️ This PDF appears to be scanned or contains mostly images with minimal selectable text (only ${fullText.trim().length} characters extracted).\n\nTo summarize this PDF, please:\n1. Use an OCR tool to convert it to searchable text, or\n2. Open it in Adobe Acrobat or similar tool and re-save as a text-selectable PDF, or\n3. Copy and paste the text content manually into the Text tab.\n\nExtracted content: ${fullText.trim() || '(none)'}`;
-      
-      return new Response(
-        JSON.stringify({ 
-          text: warningMessage,
-          warning: 'Limited text extracted - PDF may contain scanned images',
-          pages: document.numPages
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // Headings are told apart by type larger than the body text of the whole document
+    const bodySize = bodyFontSize(pages.map(page => page.items));
+    const pageTexts = pages.map(page => pageText(page.items, page.view, bodySize));
+    const imagePages = pageTexts.filter(text => text.length < MIN_PAGE_TEXT).length;
+
+    // "[Page N]" before each page, the marker the client reads page numbers from
+    const text = document.numPages > 1
+      ? pageTexts.map((body, i) => `[Page ${i + 1}]\n${body}`).join('\n\n')
+      : pageTexts.join('');
+    const [metadata, outline] = await Promise.all([readMetadata(document), readOutline(document)]);
+
+    console.log('Extracted text length:', text.length, 'pages:', document.numPages, 'body font size:', bodySize, 'bookmarks:', outline.length);
+
+    // Mostly scanned pages: the client renders the pages and runs OCR on them
+    const scanned = imagePages > document.numPages / 2;
+    if (scanned) {
+      console.log(`PDF appears to be scanned: ${imagePages} of ${document.numPages} pages have no text layer`);
     }
 
     return new Response(
-      JSON.stringify({ 
-        text: fullText.trim(),
-        pages: document.numPages
+      JSON.stringify({
+        text,
+        scanned,
+        pages: document.numPages,
+        metadata,
+        outline,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
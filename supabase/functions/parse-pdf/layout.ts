@@ -0,0 +1,169 @@
+// Rebuilds readable text from PDF.js text items. Items carry a position and
+// font size but no structure, so lines are grouped by baseline, two-column
+// pages are read column by column, larger type becomes Markdown headings and
+// wide gaps between items are kept as table cells.
+
+export interface PdfTextItem {
+  str: string;
+  // [scaleX, skewY, skewX, scaleY, x, y], in PDF units from the bottom-left
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+interface Positioned {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+}
+
+interface Line {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  // More than one cell: items separated by gaps wider than a few spaces
+  isRow: boolean;
+}
+
+// Gap between items, in font sizes, read as a table column break
+const CELL_GAP = 2;
+// Type at least this much larger than body text is a heading
+const HEADING_RATIO = 1.2;
+const MAX_HEADING_LENGTH = 150;
+// Running page numbers ("12", "Page 3 of 10") at the top or bottom of a page
+const PAGE_NUMBER = /^(page\s+)?\d{1,4}(\s*(of|\/)\s*\d{1,4})?$/i;
+
+const toPositioned = (item: PdfTextItem): Positioned => ({
+  str: item.str,
+  x: item.transform[4],
+  y: item.transform[5],
+  width: item.width,
+  size: Math.hypot(item.transform[2], item.transform[3]) || item.height,
+});
+
+// The font size most of the document's characters are set in
+export function bodyFontSize(pages: PdfTextItem[][]): number {
+  const counts = new Map<number, number>();
+  for (const item of pages.flat()) {
+    const size = Math.round(toPositioned(item).size * 2) / 2;
+    if (size > 0) counts.set(size, (counts.get(size) ?? 0) + item.str.trim().length);
+  }
+  let body = 0;
+  let most = 0;
+  for (const [size, chars] of counts) {
+    if (chars > most) {
+      body = size;
+      most = chars;
+    }
+  }
+  return body || 12;
+}
+
+// Splits a page whose text leaves the middle of the page empty into its left
+// and right columns; anything spanning the middle is read with the left one
+function splitColumns(items: Positioned[], middle: number): Positioned[][] {
+  const chars = (group: Positioned[]) => group.reduce((sum, item) => sum + item.str.length, 0);
+  const right = items.filter(item => item.x >= middle);
+  const spanning = items.filter(item => item.x < middle && item.x + item.width > middle);
+  const total = chars(items);
+  if (total === 0 || chars(spanning) / total > 0.05 || chars(right) / total < 0.25 || chars(right) / total > 0.75) {
+    return [items];
+  }
+  return [items.filter(item => item.x < middle), right];
+}
+
+function groupLines(items: Positioned[]): Line[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: Positioned[][] = [];
+  for (const item of sorted) {
+    const current = groups[groups.length - 1];
+    if (current && Math.abs(current[0].y - item.y) <= Math.max(current[0].size, item.size) * 0.5) {
+      current.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups.map(group => {
+    group.sort((a, b) => a.x - b.x);
+    const size = Math.max(...group.map(item => item.size));
+    let text = '';
+    let isRow = false;
+    let end = -Infinity;
+    for (const item of group) {
+      const gap = item.x - end;
+      if (text && gap > size * CELL_GAP) {
+        text = `${text.trimEnd()} | ${item.str.trimStart()}`;
+        isRow = true;
+      } else if (text && gap > size * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.str)) {
+        text += ` ${item.str}`;
+      } else {
+        text += item.str;
+      }
+      end = item.x + item.width;
+    }
+    return { text: text.replace(/\s+/g, ' ').trim(), x: group[0].x, y: group[0].y, size, isRow };
+  }).filter(line => line.text);
+}
+
+const headingLevel = (size: number, bodySize: number) =>
+  size >= bodySize * 1.8 ? '#' : size >= bodySize * 1.4 ? '##' : '###';
+
+// Joins wrapped lines, rejoining words hyphenated across the break
+const joinWrapped = (previous: string, next: string) =>
+  /\p{L}-$/u.test(previous) && /^\p{Ll}/u.test(next) ? previous.slice(0, -1) + next : `${previous} ${next}`;
+
+function linesToBlocks(lines: Line[], bodySize: number): string[] {
+  const isHeading = (line: Line) =>
+    line.size >= bodySize * HEADING_RATIO && line.text.length <= MAX_HEADING_LENGTH && !line.isRow;
+  const spacings = lines.slice(1)
+    .map((line, i) => lines[i].y - line.y)
+    .filter(spacing => spacing > 0)
+    .sort((a, b) => a - b);
+  // The lower quartile, as gaps between paragraphs and around headings are larger
+  const lineSpacing = spacings[Math.floor(spacings.length / 4)] ?? bodySize * 1.2;
+
+  const blocks: string[] = [];
+  let block = '';
+  let kind: 'heading' | 'row' | 'text' | null = null;
+  let previous: Line | null = null;
+
+  for (const line of lines) {
+    const lineKind = isHeading(line) ? 'heading' : line.isRow ? 'row' : 'text';
+    const spacing = previous ? previous.y - line.y : 0;
+    const continues = previous !== null
+      && lineKind === kind
+      && spacing > 0
+      && spacing <= lineSpacing * 1.5
+      // An indented first line starts a paragraph too
+      && (lineKind !== 'text' || line.x <= previous.x + line.size)
+      && (lineKind !== 'heading' || Math.abs(previous.size - line.size) < 0.5);
+
+    if (continues) {
+      block = lineKind === 'row' ? `${block}\n${line.text}` : joinWrapped(block, line.text);
+    } else {
+      if (block) blocks.push(kind === 'heading' ? `${headingLevel(previous!.size, bodySize)} ${block}` : block);
+      block = line.text;
+      kind = lineKind;
+    }
+    previous = line;
+  }
+  if (block) blocks.push(kind === 'heading' ? `${headingLevel(previous!.size, bodySize)} ${block}` : block);
+  return blocks;
+}
+
+// One page as paragraphs separated by blank lines. `view` is the page's
+// [left, bottom, right, top] box, as PDF.js gives it.
+export function pageText(items: PdfTextItem[], view: number[], bodySize: number): string {
+  const positioned = items.filter(item => item.str.trim()).map(toPositioned);
+  const lines = splitColumns(positioned, (view[0] + view[2]) / 2).flatMap(groupLines);
+
+  // Running headers and footers that are just the page number
+  if (lines.length > 1 && PAGE_NUMBER.test(lines[lines.length - 1].text)) lines.pop();
+  if (lines.length > 1 && PAGE_NUMBER.test(lines[0].text)) lines.shift();
+
+  return linesToBlocks(lines, bodySize).join('\n\n');
+}
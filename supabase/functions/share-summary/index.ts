@@ -0,0 +1,190 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "zod";
+import { HttpUrlSchema, SummarySchema, formatIssues } from "../_shared/summarySchema.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// 18 random bytes, 24 characters in base64url
+const ID_BYTES = 18;
+const MAX_EXPIRY_DAYS = 365;
+const MAX_CONTENT_LENGTH = 1_000_000;
+// Serialized size of each stored summary; template output makes up most of it
+const MAX_SUMMARY_LENGTH = 200_000;
+// The content, both summaries and some room for the other fields
+const MAX_REQUEST_LENGTH = MAX_CONTENT_LENGTH + 2 * MAX_SUMMARY_LENGTH + 10_000;
+const PBKDF2_ITERATIONS = 100_000;
+const MIN_PASSWORD_LENGTH = 8;
+// Password guesses allowed per share in each window
+const MAX_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_WINDOW_SECONDS = 15 * 60;
+
+// Shares are public, so only the fields the app knows are stored
+const SharedSummarySchema = SummarySchema.refine(
+  (summary) => JSON.stringify(summary).length <= MAX_SUMMARY_LENGTH,
+  `Summary is larger than ${MAX_SUMMARY_LENGTH} characters`
+);
+
+const CreateShareSchema = z.object({
+  title: z.string().trim().min(1).max(300),
+  sourceUrl: HttpUrlSchema.optional(),
+  summary: SharedSummarySchema,
+  translation: z.object({
+    language: z.string().trim().min(1).max(50),
+    summary: SharedSummarySchema,
+  }).optional(),
+  // Only sent when the sharer opted in to publishing the source text
+  content: z.string().max(MAX_CONTENT_LENGTH).optional(),
+  expiresInDays: z.number().int().positive().max(MAX_EXPIRY_DAYS).optional(),
+  password: z.string().min(MIN_PASSWORD_LENGTH).max(200).optional(),
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomToken = (length: number) => toBase64Url(crypto.getRandomValues(new Uint8Array(length)));
+
+async function hashPassword(password: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toBase64Url(new Uint8Array(bits));
+}
+
+// Compares every character so the time taken doesn't reveal how much matched
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const raw = await req.text();
+    if (raw.length > MAX_REQUEST_LENGTH) {
+      return jsonResponse({ error: 'This summary is too large to share.' }, 413);
+    }
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return jsonResponse({ error: 'Invalid request body' }, 400);
+    }
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    if (body?.action === 'create') {
+      const parsed = CreateShareSchema.safeParse(body);
+      if (!parsed.success) {
+        return jsonResponse({ error: `Invalid share: ${formatIssues(parsed.error).join('; ')}` }, 400);
+      }
+      const input = parsed.data;
+      const id = randomToken(ID_BYTES);
+      const salt = input.password ? randomToken(16) : null;
+      const expiresAt = input.expiresInDays
+        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+
+      const { error } = await supabase.from('shared_summaries').insert({
+        id,
+        title: input.title,
+        source_url: input.sourceUrl ?? null,
+        summary: input.summary,
+        translated_summary: input.translation?.summary ?? null,
+        translation_language: input.translation?.language ?? null,
+        original_content: input.content ?? null,
+        password_hash: input.password && salt ? await hashPassword(input.password, salt) : null,
+        password_salt: salt,
+        expires_at: expiresAt,
+      });
+      if (error) throw error;
+
+      console.log('Share created, expires:', expiresAt, 'password:', !!input.password, 'content:', input.content !== undefined);
+      return jsonResponse({ id, expiresAt });
+    }
+
+    if (body?.action === 'get') {
+      const id = typeof body.id === 'string' ? body.id : '';
+      const { data: share, error } = await supabase
+        .from('shared_summaries')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw error;
+
+      if (!share || (share.expires_at && new Date(share.expires_at) <= new Date())) {
+        if (share) {
+          console.log('Removing expired share');
+          await supabase.from('shared_summaries').delete().eq('id', id);
+        }
+        return jsonResponse({ error: 'This link does not exist or has expired.' }, 404);
+      }
+
+      if (share.password_hash) {
+        const password = typeof body.password === 'string' ? body.password : '';
+        if (!password) {
+          return jsonResponse({ error: 'This summary is password protected.', passwordRequired: true }, 401);
+        }
+        // Claimed before hashing, so guesses past the limit cost no PBKDF2 work
+        const { data: allowed, error: claimError } = await supabase.rpc('claim_share_password_attempt', {
+          share_id: id,
+          max_attempts: MAX_PASSWORD_ATTEMPTS,
+          window_seconds: PASSWORD_WINDOW_SECONDS,
+        });
+        if (claimError) throw claimError;
+        if (!allowed) {
+          console.log('Password attempts exhausted for share');
+          return jsonResponse({
+            error: `Too many incorrect passwords. Try again in ${PASSWORD_WINDOW_SECONDS / 60} minutes.`,
+            passwordRequired: true,
+          }, 429);
+        }
+        if (!safeEqual(await hashPassword(password, share.password_salt), share.password_hash)) {
+          return jsonResponse({ error: 'Incorrect password.', passwordRequired: true }, 401);
+        }
+        // The right password clears the guesses counted so far, this one included
+        await supabase.from('shared_summaries').update({ password_attempts: 0, password_window_start: null }).eq('id', id);
+      }
+
+      return jsonResponse({
+        share: {
+          title: share.title,
+          sourceUrl: share.source_url,
+          summary: share.summary,
+          translation: share.translated_summary
+            ? { language: share.translation_language, summary: share.translated_summary }
+            : null,
+          content: share.original_content,
+          createdAt: share.created_at,
+          expiresAt: share.expires_at,
+        },
+      });
+    }
+
+    return jsonResponse({ error: 'Unknown action' }, 400);
+
+  } catch (error) {
+    console.error("Error in share-summary:", error);
+    const errorMessage = error instanceof Error ? error.message : "An error occurred";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,151 @@
+import type { LocatedCue } from "../_shared/transcriptFormats.ts";
+import type { VideoChapter } from "../_shared/videoChapters.ts";
+
+// Splits a timed transcript into chapters: the video's own chapter markers
+// when it has them, otherwise topic boundaries found TextTiling-style, where
+// the words used on either side of a point in the transcript differ most.
+
+export interface ChapterPlan {
+  // null for detected chapters, which the model names
+  title: string | null;
+  start: number;
+  end: number;
+  // Character range of the chapter in the transcript
+  startOffset: number;
+  endOffset: number;
+}
+
+// Videos shorter than this get no chapter outline unless they have chapters
+const MIN_SEGMENTED_DURATION = 10 * 60;
+const MAX_CHAPTERS = 12;
+// One detected chapter per this many seconds, within the limits
+const SECONDS_PER_CHAPTER = 5 * 60;
+const MIN_CHAPTER_SECONDS = 2 * 60;
+// Transcript is compared in blocks of about this many seconds
+const BLOCK_SECONDS = 30;
+// Blocks on each side of a candidate boundary
+const WINDOW_BLOCKS = 4;
+
+const STOPWORDS = new Set([
+  'that', 'this', 'with', 'have', 'from', 'they', 'what', 'when', 'were', 'there', 'their', 'about', 'would', 'could',
+  'which', 'just', 'like', 'know', 'really', 'going', 'then', 'than', 'them', 'these', 'those', 'some', 'because',
+  'also', 'into', 'your', 'will', 'been', 'more', 'very', 'well', 'right', 'think', 'yeah', 'okay', 'thing', 'things',
+  'here', 'where', 'want', 'gonna', 'actually', 'something', 'other', 'does', 'make', 'much', 'even', 'only',
+]);
+
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/\p{L}{4,}/gu) ?? []) {
+    if (STOPWORDS.has(word)) continue;
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function merge(blocks: Map<string, number>[]): Map<string, number> {
+  const total = new Map<string, number>();
+  for (const block of blocks) {
+    for (const [word, count] of block) total.set(word, (total.get(word) ?? 0) + count);
+  }
+  return total;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [word, count] of a) {
+    normA += count * count;
+    dot += count * (b.get(word) ?? 0);
+  }
+  for (const count of b.values()) normB += count * count;
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Chapter start times, in seconds, beginning with 0
+function detectTopicBoundaries(content: string, cues: LocatedCue[], duration: number): number[] {
+  // Group cues into blocks of roughly BLOCK_SECONDS
+  const blocks: Array<{ start: number; offset: number; terms: Map<string, number> }> = [];
+  let blockStart = 0;
+  for (let i = 1; i <= cues.length; i++) {
+    if (i < cues.length && cues[i].seconds - cues[blockStart].seconds < BLOCK_SECONDS) continue;
+    const endOffset = i < cues.length ? cues[i].offset : content.length;
+    blocks.push({
+      start: cues[blockStart].seconds,
+      offset: cues[blockStart].offset,
+      terms: termCounts(content.slice(cues[blockStart].offset, endOffset)),
+    });
+    blockStart = i;
+  }
+  if (blocks.length < WINDOW_BLOCKS * 2) return [0];
+
+  // Depth of the similarity dip at each gap between blocks
+  const similarities = blocks.map((_, gap) => gap === 0 ? 1 : cosine(
+    merge(blocks.slice(Math.max(0, gap - WINDOW_BLOCKS), gap).map(b => b.terms)),
+    merge(blocks.slice(gap, gap + WINDOW_BLOCKS).map(b => b.terms)),
+  ));
+  const depths = similarities.map((similarity, gap) => {
+    if (gap === 0) return -1;
+    let left = similarity;
+    for (let i = gap - 1; i > 0 && similarities[i] >= left; i--) left = similarities[i];
+    let right = similarity;
+    for (let i = gap + 1; i < similarities.length && similarities[i] >= right; i++) right = similarities[i];
+    return (left - similarity) + (right - similarity);
+  });
+
+  // Only clearly deeper than usual dips count as topic changes
+  const dips = depths.filter(depth => depth > 0);
+  const mean = dips.reduce((sum, depth) => sum + depth, 0) / (dips.length || 1);
+  const deviation = Math.sqrt(dips.reduce((sum, depth) => sum + (depth - mean) ** 2, 0) / (dips.length || 1));
+  const cutoff = mean + deviation / 2;
+
+  const target = Math.min(MAX_CHAPTERS, Math.max(2, Math.round(duration / SECONDS_PER_CHAPTER)));
+  const boundaries = [0];
+  const candidates = depths
+    .map((depth, gap) => ({ depth, start: blocks[gap].start }))
+    .filter(c => c.depth > cutoff)
+    .sort((a, b) => b.depth - a.depth);
+  for (const candidate of candidates) {
+    if (boundaries.length >= target) break;
+    const tooClose = boundaries.some(start => Math.abs(start - candidate.start) < MIN_CHAPTER_SECONDS)
+      || duration - candidate.start < MIN_CHAPTER_SECONDS;
+    if (!tooClose) boundaries.push(candidate.start);
+  }
+  return boundaries.sort((a, b) => a - b);
+}
+
+// Offset of the first cue at or after `seconds`
+function offsetAt(cues: LocatedCue[], seconds: number, fallback: number): number {
+  return cues.find(cue => cue.seconds >= seconds)?.offset ?? fallback;
+}
+
+export function planChapters(
+  content: string,
+  cues: LocatedCue[],
+  videoChapters: VideoChapter[]
+): { source: 'video' | 'topics'; chapters: ChapterPlan[] } | null {
+  if (cues.length === 0) return null;
+  const duration = cues[cues.length - 1].seconds;
+
+  const fromVideo = videoChapters.length > 1;
+  if (!fromVideo && duration < MIN_SEGMENTED_DURATION) return null;
+
+  const starts = fromVideo
+    ? videoChapters.slice(0, MAX_CHAPTERS * 2).map(chapter => ({ title: chapter.title, start: chapter.start }))
+    : detectTopicBoundaries(content, cues, duration).map(start => ({ title: null, start }));
+  if (starts.length < 2) return null;
+
+  const chapters = starts.map((chapter, i) => {
+    const next = starts[i + 1];
+    return {
+      title: chapter.title,
+      start: chapter.start,
+      end: next ? next.start : duration,
+      // The first chapter also covers anything before the first cue, e.g. a title line
+      startOffset: i === 0 ? 0 : offsetAt(cues, chapter.start, content.length),
+      endOffset: next ? offsetAt(cues, next.start, content.length) : content.length,
+    };
+  });
+  // Chapters past the end of the captions have no text to summarize
+  return { source: fromVideo ? 'video' : 'topics', chapters: chapters.filter(c => c.endOffset > c.startOffset) };
+}
@@ -1,29 +1,250 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { ValidateFunction } from "ajv";
+import { z } from "zod";
+import {
+  BulletPointSchema,
+  ModelSummarySchema,
+  OutputValidationError,
+  isHttpUrl,
+  parseModelJson,
+  repairJson,
+  type BulletPoint,
+  type ChapterSummary,
+  type Comparison,
+  type ParseResult,
+  type PlaylistVideoSummary,
+  type PromptTemplate,
+  type Summary,
+  type SummaryLength,
+  type SummaryOptions,
+  type SummaryStyle,
+} from "../_shared/summarySchema.ts";
+import { alignQuote } from "../_shared/sourceAlignment.ts";
+import { formatTimestamp, locateTimeline, timestampAt, type LocatedCue, type TimelineItem } from "../_shared/transcriptFormats.ts";
+import type { VideoChapter } from "../_shared/videoChapters.ts";
+import { planChapters, type ChapterPlan } from "./chapters.ts";
+import { compileOutputSchema } from "./outputSchema.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
+// Inputs longer than CHUNK_SIZE are summarized chunk by chunk (map) and the
+// partial results merged into one summary (reduce).
+const CHUNK_SIZE = 24000;
+const CHUNK_OVERLAP = 1500;
+const MAX_CHUNKS = 24;
+// Keep parallel gateway calls low so long documents don't trip the 429 limit
+const MAP_CONCURRENCY = 3;
+const DUPLICATE_THRESHOLD = 0.6;
+const MAX_COMPARE_DOCUMENTS = 4;
+// Invalid model output is sent back with the problems listed this many times
+const MAX_REPAIR_ATTEMPTS = 1;
+// Transcript cues accepted with the content, about ten hours of captions
+const MAX_TIMELINE_ITEMS = 20000;
+const MAX_VIDEO_CHAPTERS = 100;
+const MAX_PLAYLIST_VIDEOS = 50;
+
+interface Chunk {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface CompareDocument {
+  title: string;
+  url?: string;
+  content: string;
+}
+
+interface SummaryJob {
+  apiKey: string;
+  content: string;
+  url: string;
+  chunks: Chunk[];
+  options: SummaryOptions;
+  template?: PromptTemplate;
+  language: string;
+  validateOutput?: ValidateFunction;
+  // Transcript cues located in `content`, for timestamping references
+  cues: LocatedCue[];
+  // Chapter markers of the video, if it has any
+  videoChapters: VideoChapter[];
+}
+
+class GatewayError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
   }
+}
 
-  try {
-    const { content, url } = await req.json();
-    console.log('Summarizing content, URL:', url);
-    
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
+// The model, not the caller, produced the bad output, hence 502
+const errorStatus = (error: unknown) =>
+  error instanceof GatewayError ? error.status : error instanceof OutputValidationError ? 502 : 500;
+
+// Point ids have the form "<source>.<point>", both 1-based
+const ModelComparisonSchema = z.object({
+  overview: z.string(),
+  agreements: z.array(z.object({
+    point: z.string(),
+    pointIds: z.array(z.string()),
+  })).default([]),
+  disagreements: z.array(z.object({
+    topic: z.string(),
+    positions: z.array(z.object({
+      pointId: z.string(),
+      position: z.string(),
+    })),
+  })).default([]),
+  unique: z.array(z.object({
+    point: z.string(),
+    pointId: z.string(),
+  })).default([]),
+});
+
+// Titles are only asked for when the chapter was detected rather than named
+const ModelChapterSchema = z.object({
+  title: z.string().trim().optional(),
+  summary: z.string().trim().min(1, "Chapter overview is empty"),
+  bulletPoints: z.array(BulletPointSchema),
+});
+
+// Videos are cited by their 1-based number in the digest
+const ModelPlaylistSchema = z.object({
+  summary: z.string(),
+  bulletPoints: z.array(z.object({
+    point: z.string().trim().min(1, "Point text is empty"),
+    reference: z.string().default(''),
+    videos: z.array(z.number().int()).default([]),
+  })),
+});
+
+const ReducedSummarySchema = z.object({
+  summary: z.string(),
+  bulletPoints: z.array(z.object({
+    id: z.number().int().nonnegative(),
+    point: z.string().default(''),
+  })),
+});
 
-    const systemPrompt = `You are an expert content summarizer. Your task is to:
+const LENGTH_PRESETS: Record<SummaryLength, { overview: string; bullets: string }> = {
+  tldr: { overview: 'A one-sentence TL;DR', bullets: '3-4' },
+  standard: { overview: 'A brief 2-3 sentence overview', bullets: '5-8' },
+  detailed: { overview: 'A thorough 4-6 sentence overview', bullets: '10-15' },
+};
+
+const STYLE_INSTRUCTIONS: Record<SummaryStyle, string> = {
+  neutral: 'Use a neutral, factual tone.',
+  executive: 'Write as an executive brief: lead with conclusions, decisions and business impact in crisp, direct language.',
+  academic: 'Write in the register of an academic abstract: precise and formal, covering purpose, method, findings and implications where present.',
+  eli5: 'Explain it like the reader is five: plain everyday words, short sentences and simple analogies, no jargon.',
+};
+
+const DEFAULT_OPTIONS: SummaryOptions = { length: 'standard', style: 'neutral' };
+const MAX_BULLET_COUNT = 20;
+const MAX_TEMPLATE_LENGTH = 10000;
+const DEFAULT_LANGUAGE = 'English';
+const TEMPLATE_VARIABLE = /\{\{\s*(content|url|language)\s*\}\}/g;
+
+// Drops unknown values so a malformed request falls back to the defaults
+function normalizeOptions(raw: unknown): SummaryOptions {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const options: SummaryOptions = {
+    length: typeof input.length === 'string' && input.length in LENGTH_PRESETS
+      ? input.length as SummaryLength
+      : DEFAULT_OPTIONS.length,
+    style: typeof input.style === 'string' && input.style in STYLE_INSTRUCTIONS
+      ? input.style as SummaryStyle
+      : DEFAULT_OPTIONS.style,
+  };
+
+  if (typeof input.audience === 'string' && input.audience.trim()) {
+    options.audience = input.audience.trim().slice(0, 200);
+  }
+  if (typeof input.outputLanguage === 'string' && input.outputLanguage.trim()) {
+    options.outputLanguage = input.outputLanguage.trim().slice(0, 50);
+  }
+  const bulletCount = Number(input.bulletCount);
+  if (Number.isInteger(bulletCount) && bulletCount > 0) {
+    options.bulletCount = Math.min(bulletCount, MAX_BULLET_COUNT);
+  }
+  return options;
+}
+
+function normalizeTimeline(raw: unknown): TimelineItem[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((item): item is TimelineItem => typeof item?.time === 'string' && typeof item?.text === 'string')
+    .slice(0, MAX_TIMELINE_ITEMS);
+}
+
+function normalizeVideoChapters(raw: unknown): VideoChapter[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((chapter): chapter is VideoChapter =>
+      typeof chapter?.title === 'string' && typeof chapter?.start === 'number' && chapter.start >= 0)
+    .map(chapter => ({ title: chapter.title.trim().slice(0, 200), start: chapter.start }))
+    .slice(0, MAX_VIDEO_CHAPTERS);
+}
+
+function normalizeTemplate(raw: unknown): PromptTemplate | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const input = raw as Record<string, unknown>;
+  if (typeof input.prompt !== 'string' || !input.prompt.trim()) {
+    throw new Error('Template prompt is required');
+  }
+  if (input.prompt.length > MAX_TEMPLATE_LENGTH) {
+    throw new Error(`Template prompt is too long (maximum is ${MAX_TEMPLATE_LENGTH} characters)`);
+  }
+
+  const template: PromptTemplate = {
+    name: typeof input.name === 'string' && input.name.trim() ? input.name.trim().slice(0, 100) : 'Custom template',
+    prompt: input.prompt,
+  };
+  if (input.outputSchema !== undefined && input.outputSchema !== null) {
+    if (typeof input.outputSchema !== 'object' || Array.isArray(input.outputSchema)) {
+      throw new Error('Template output schema must be a JSON object');
+    }
+    template.outputSchema = input.outputSchema as Record<string, unknown>;
+  }
+  return template;
+}
+
+// Substitutes the template variables; content is appended when the template
+// does not place it explicitly so the model always sees the source
+function renderTemplate(template: PromptTemplate, variables: { content: string; url: string; language: string }): string {
+  const rendered = template.prompt.replace(TEMPLATE_VARIABLE, (_, name: keyof typeof variables) => variables[name]);
+  return /\{\{\s*content\s*\}\}/.test(template.prompt)
+    ? rendered
+    : `${rendered}\n\nContent:\n${variables.content}`;
+}
+
+function bulletRange(options: SummaryOptions): string {
+  return options.bulletCount ? `exactly ${options.bulletCount}` : LENGTH_PRESETS[options.length].bullets;
+}
+
+function styleGuidance(options: SummaryOptions): string {
+  const lines = [STYLE_INSTRUCTIONS[options.style]];
+  if (options.audience) lines.push(`Write for this audience: ${options.audience}.`);
+  if (options.outputLanguage) lines.push(`Write the overview and points in ${options.outputLanguage}; keep references as quoted in the original.`);
+  return lines.join('\n');
+}
+
+function summaryInstructions(options: SummaryOptions): string {
+  return `You are an expert content summarizer. Your task is to:
 1. Extract the main ideas from the provided content
-2. Create clear, concise bullet points (5-8 main points)
+2. Create clear, concise bullet points (${bulletRange(options)} main points)
 3. For each bullet point, include a brief reference or quote from the original text
+${styleGuidance(options)}`;
+}
+
+function jsonSystemPrompt(options: SummaryOptions): string {
+  return `${summaryInstructions(options)}
 4. Structure your response as JSON with this format:
 {
-  "summary": "A brief 2-3 sentence overview",
+  "summary": "${LENGTH_PRESETS[options.length].overview}",
   "bulletPoints": [
     {
       "point": "Main idea here",
@@ -31,46 +252,206 @@ serve(async (req) => {
     }
   ]
 }`;
+}
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: `Please summarize this content:\n\n${content}` }
-        ],
-        response_format: { type: "json_object" }
-      }),
-    });
+// Streaming uses a line-based format instead of JSON so the overview and each
+// point can be forwarded to the client as soon as they are complete
+function streamSystemPrompt(options: SummaryOptions): string {
+  return `${summaryInstructions(options)}
+4. Respond in plain text using exactly this line format, without markdown or JSON:
+SUMMARY: ${LENGTH_PRESETS[options.length].overview}
+POINT: Main idea here
+REFERENCE: Brief quote or reference from original text
+Repeat the POINT and REFERENCE lines for every bullet point.`;
+}
+
+const chunkSystemPrompt = `You are an expert content summarizer working on one section of a longer document. Your task is to:
+1. Extract the main ideas from this section only
+2. Create clear, concise bullet points (3-6 main points)
+3. For each bullet point, include a short quote copied exactly, word for word, from this section
+4. Structure your response as JSON with this format:
+{
+  "summary": "A 1-2 sentence overview of this section",
+  "bulletPoints": [
+    {
+      "point": "Main idea here",
+      "reference": "Exact quote from this section"
+    }
+  ]
+}`;
+
+function templateSystemPrompt(options: SummaryOptions): string {
+  return `You are an expert content analyst. Follow the user's instructions for the content they provide.
+${styleGuidance(options)}
+Report each finding as a bullet point and include a short quote copied exactly, word for word, from the content that supports it.
+Structure your response as JSON with this format:
+{
+  "summary": "A brief overview of what you found",
+  "bulletPoints": [
+    {
+      "point": "Finding here",
+      "reference": "Exact quote from the content"
+    }
+  ]
+}`;
+}
+
+function schemaSystemPrompt(schema: Record<string, unknown>): string {
+  return `You are an expert content analyst. Follow the user's instructions for the content they provide.
+Respond only with JSON that conforms to this JSON schema:
+${JSON.stringify(schema, null, 2)}`;
+}
+
+function chapterSystemPrompt(options: SummaryOptions, needsTitle: boolean): string {
+  return `You are an expert content summarizer working on one chapter of a video or audio transcript. Your task is to:
+1. Write a 1-2 sentence overview of this chapter only
+2. Create 2-4 concise bullet points with its main ideas
+3. For each bullet point, include a short quote copied exactly, word for word, from this chapter
+${needsTitle ? '4. Give the chapter a short title of at most 6 words\n' : ''}${styleGuidance(options)}
+Structure your response as JSON with this format:
+{
+${needsTitle ? '  "title": "Short chapter title",\n' : ''}  "summary": "Overview of this chapter",
+  "bulletPoints": [
+    {
+      "point": "Main idea here",
+      "reference": "Exact quote from this chapter"
+    }
+  ]
+}`;
+}
+
+function compareSystemPrompt(options: SummaryOptions): string {
+  return `You are an expert analyst comparing several sources on the same subject. You are given an overview of each source and its points, each with an id like "2.3" (source 2, point 3). Your task is to:
+1. Write a brief 2-3 sentence overview of how the sources relate to each other
+2. List agreements: points made by two or more sources, with the ids of the matching point in every source that makes it
+3. List disagreements: topics on which the sources take different or conflicting positions, with each source's position and the id of the point it is based on
+4. List unique points: points only one source makes, with the id of that point
+You may reword points for clarity, but only use ids that appear in the input.
+${styleGuidance(options)}
+5. Structure your response as JSON with this format:
+{
+  "overview": "How the sources relate",
+  "agreements": [{ "point": "Shared point", "pointIds": ["1.2", "2.1"] }],
+  "disagreements": [{ "topic": "Topic", "positions": [{ "pointId": "1.3", "position": "What source 1 says" }] }],
+  "unique": [{ "point": "Point only one source makes", "pointId": "2.4" }]
+}`;
+}
+
+function playlistSystemPrompt(options: SummaryOptions): string {
+  return `You are an expert content summarizer. You are given the summaries of the numbered videos of one playlist, such as a lecture series. Your task is to:
+1. Write an overview of the playlist as a whole (${LENGTH_PRESETS[options.length].overview.toLowerCase()}), covering how it progresses
+2. Create ${bulletRange(options)} bullet points with the main themes and takeaways across the videos
+3. For each bullet point, list the numbers of the videos it draws on and include a short quote copied exactly, word for word, from one of their summaries
+${styleGuidance(options)}
+4. Structure your response as JSON with this format:
+{
+  "summary": "${LENGTH_PRESETS[options.length].overview}",
+  "bulletPoints": [
+    {
+      "point": "Main idea here",
+      "reference": "Exact quote from a video summary",
+      "videos": [1, 3]
+    }
+  ]
+}`;
+}
+
+function reduceSystemPrompt(options: SummaryOptions): string {
+  return `You are an expert content summarizer. You are given section overviews and numbered candidate points extracted from consecutive sections of one long document. Your task is to:
+1. Write an overview of the whole document (${LENGTH_PRESETS[options.length].overview.toLowerCase()})
+2. Choose the ${bulletRange(options)} most important candidate points, merging points that say the same thing
+3. You may reword a point for clarity, but always keep the id of the candidate it came from
+${styleGuidance(options)}
+4. Structure your response as JSON with this format:
+{
+  "summary": "${LENGTH_PRESETS[options.length].overview}",
+  "bulletPoints": [
+    {
+      "id": 0,
+      "point": "Main idea here"
+    }
+  ]
+}`;
+}
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
-          status: 429,
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { content, url, stream, options: rawOptions, template: rawTemplate, variables, mode, documents, timeline, chapters, playlist, videos } = await req.json();
+    const options = normalizeOptions(rawOptions);
+
+    if (mode === 'compare') {
+      return await handleCompare(documents, options);
+    }
+    if (mode === 'playlist') {
+      return await handlePlaylist(playlist, videos, options);
+    }
+
+    const template = normalizeTemplate(rawTemplate);
+    console.log('Summarizing content, URL:', url, 'length:', content?.length, 'stream:', !!stream, 'options:', options, 'template:', template?.name);
+
+    if (!content || typeof content !== 'string') {
+      throw new Error('Content is required');
+    }
+
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
+
+    const chunks = splitIntoChunks(content);
+    if (chunks.length > MAX_CHUNKS) {
+      return new Response(JSON.stringify({ error: `Content is too long to summarize (${chunks.length} sections, maximum is ${MAX_CHUNKS}).` }), {
+        status: 413,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    let validateOutput: ValidateFunction | undefined;
+    if (template?.outputSchema) {
+      try {
+        validateOutput = compileOutputSchema(template.outputSchema);
+      } catch (error) {
+        console.error('Invalid template output schema:', error);
+        return new Response(JSON.stringify({ error: `The template's output schema is not a valid JSON schema: ${error instanceof Error ? error.message : error}` }), {
+          status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "Payment required. Please add credits to your workspace." }), {
-          status: 402,
+      // Structured output can't be merged across chunks like bullet points
+      if (chunks.length > 1) {
+        return new Response(JSON.stringify({ error: `Templates with an output schema only support content up to ${CHUNK_SIZE.toLocaleString()} characters.` }), {
+          status: 413,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      throw new Error("Failed to generate summary");
     }
 
-    const data = await response.json();
-    const summaryText = data.choices[0].message.content;
-    console.log('Summary generated successfully');
+    const job: SummaryJob = {
+      apiKey: LOVABLE_API_KEY,
+      content,
+      url: typeof url === 'string' ? url : '',
+      chunks,
+      options,
+      template,
+      language: typeof variables?.language === 'string' && variables.language.trim()
+        ? variables.language.trim().slice(0, 50)
+        : DEFAULT_LANGUAGE,
+      validateOutput,
+      cues: locateTimeline(content, normalizeTimeline(timeline)),
+      videoChapters: normalizeVideoChapters(chapters),
+    };
+    if (job.cues.length > 0) console.log('Located transcript cues:', job.cues.length);
+
+    if (stream) {
+      return streamSummary(job);
+    }
+
+    const [summary, chapterSummaries] = await Promise.all([summarize(job), summarizeChapters(job)]);
+    console.log('Summary generated successfully, points:', summary.bulletPoints?.length);
 
-    return new Response(JSON.stringify({ summary: JSON.parse(summaryText) }), {
+    return new Response(JSON.stringify({ summary: { ...summary, ...chapterSummaries } }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
 
@@ -78,8 +459,713 @@ serve(async (req) => {
     console.error("Error in summarize-content:", error);
     const errorMessage = error instanceof Error ? error.message : "An error occurred";
     return new Response(JSON.stringify({ error: errorMessage }), {
-      status: 500,
+      status: errorStatus(error),
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   }
-});
\ No newline at end of file
+});
+
+async function handleCompare(rawDocuments: unknown, options: SummaryOptions): Promise<Response> {
+  if (
+    !Array.isArray(rawDocuments) ||
+    rawDocuments.length < 2 ||
+    rawDocuments.length > MAX_COMPARE_DOCUMENTS ||
+    rawDocuments.some(doc => !doc || typeof doc.content !== 'string' || !doc.content.trim())
+  ) {
+    throw new Error(`Comparison needs between 2 and ${MAX_COMPARE_DOCUMENTS} documents with content`);
+  }
+
+  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+  if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
+
+  const documents: CompareDocument[] = rawDocuments.map((doc, i) => ({
+    title: typeof doc.title === 'string' && doc.title.trim() ? doc.title.trim().slice(0, 200) : `Source ${i + 1}`,
+    url: typeof doc.url === 'string' ? doc.url : undefined,
+    content: doc.content,
+  }));
+  const jobs: SummaryJob[] = documents.map(doc => ({
+    apiKey: LOVABLE_API_KEY,
+    content: doc.content,
+    url: doc.url ?? '',
+    chunks: splitIntoChunks(doc.content),
+    options,
+    language: DEFAULT_LANGUAGE,
+    cues: [],
+    videoChapters: [],
+  }));
+
+  const totalChunks = jobs.reduce((sum, job) => sum + job.chunks.length, 0);
+  if (totalChunks > MAX_CHUNKS) {
+    return new Response(JSON.stringify({ error: `Documents are too long to compare (${totalChunks} sections, maximum is ${MAX_CHUNKS}).` }), {
+      status: 413,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  console.log('Comparing documents:', documents.map(d => d.title), 'sections:', totalChunks);
+  const comparison = await compareDocuments(documents, jobs, options);
+  console.log('Comparison generated successfully, agreements:', comparison.agreements.length);
+
+  return new Response(JSON.stringify({ comparison }), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Keeps the well-formed videos a client sent for a roll-up, up to MAX_PLAYLIST_VIDEOS
+function normalizePlaylistVideos(raw: unknown): PlaylistVideoSummary[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    // The urls are rendered as links, so only web pages are kept
+    .filter(video => typeof video?.title === 'string' && typeof video?.url === 'string' && isHttpUrl(video.url))
+    .slice(0, MAX_PLAYLIST_VIDEOS)
+    .map(video => ({
+      title: video.title.trim().slice(0, 300),
+      url: video.url,
+      summary: typeof video.summary === 'string' ? video.summary : '',
+      bulletPoints: Array.isArray(video.bulletPoints)
+        ? video.bulletPoints.flatMap((bp: unknown) => {
+          const parsed = BulletPointSchema.safeParse(bp);
+          return parsed.success ? [parsed.data] : [];
+        })
+        : [],
+      ...(typeof video.error === 'string' && { error: video.error.slice(0, 500) }),
+    }));
+}
+
+// The text the roll-up is written from and its references point into
+function playlistDigest(title: string, url: string, videos: PlaylistVideoSummary[]): string {
+  const sections = videos.map((video, i) => [
+    `## ${i + 1}. ${video.title}`,
+    video.url,
+    video.error ? `(Not summarized: ${video.error})` : video.summary,
+    video.bulletPoints.map(bp => `- ${bp.point}`).join('\n'),
+  ].filter(Boolean).join('\n\n'));
+  return [`# ${title}`, url, ...sections].join('\n\n');
+}
+
+// Rolls the per-video summaries of a playlist, made one request at a time by
+// the client, up into one summary whose points link back to the videos
+async function handlePlaylist(rawPlaylist: unknown, rawVideos: unknown, options: SummaryOptions): Promise<Response> {
+  const playlist = rawPlaylist as { title?: unknown; url?: unknown } | null;
+  const title = typeof playlist?.title === 'string' && playlist.title.trim() ? playlist.title.trim().slice(0, 300) : 'YouTube playlist';
+  const url = typeof playlist?.url === 'string' ? playlist.url : '';
+  if (!isHttpUrl(url)) {
+    return new Response(JSON.stringify({ error: 'A playlist roll-up needs the http(s) URL of the playlist' }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+  const videos = normalizePlaylistVideos(rawVideos);
+  if (!videos.some(video => !video.error)) {
+    throw new Error('A playlist roll-up needs at least one summarized video');
+  }
+
+  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+  if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
+
+  const content = playlistDigest(title, url, videos);
+  console.log('Rolling up playlist:', title, 'videos:', videos.length, 'digest length:', content.length);
+  const job: SummaryJob = {
+    apiKey: LOVABLE_API_KEY,
+    content,
+    url,
+    // Video summaries are short, so even long playlists fit in one request
+    chunks: [],
+    options,
+    language: DEFAULT_LANGUAGE,
+    cues: [],
+    videoChapters: [],
+  };
+
+  const result = await requestJson(
+    LOVABLE_API_KEY,
+    playlistSystemPrompt(options),
+    content,
+    (text) => parseModelJson(text, ModelPlaylistSchema),
+    "The model returned an invalid playlist summary"
+  );
+
+  const bulletPoints = result.bulletPoints.map(({ videos: cited, ...bp }) => ({
+    ...alignBulletPoint(bp, job),
+    videoIndexes: [...new Set(cited.map(n => n - 1))].filter(i => videos[i] && !videos[i].error),
+  }));
+  const summary = withJobDetails({ summary: result.summary, bulletPoints, playlist: { title, url, videos } }, job);
+  console.log('Playlist roll-up generated, points:', bulletPoints.length);
+
+  return new Response(JSON.stringify({ summary, content }), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Summarizes every document on its own, then asks the model to line the
+// per-source points up against each other. Statements refer to point ids so
+// each one keeps the verbatim reference of the source point it came from.
+async function compareDocuments(documents: CompareDocument[], jobs: SummaryJob[], options: SummaryOptions): Promise<Comparison> {
+  // Chunked documents already summarize in parallel internally
+  const concurrency = jobs.some(job => job.chunks.length > 1) ? 1 : MAP_CONCURRENCY;
+  const summaries = await mapWithConcurrency(jobs, concurrency, job => summarize(job));
+
+  const sourceList = summaries.map((summary, s) => [
+    `Source ${s + 1}: ${documents[s].title}`,
+    `Overview: ${summary.summary}`,
+    'Points:',
+    ...summary.bulletPoints.map((bp, p) => `[${s + 1}.${p + 1}] ${bp.point}`),
+  ].join('\n')).join('\n\n');
+
+  const result = await requestJson(
+    jobs[0].apiKey,
+    compareSystemPrompt(options),
+    sourceList,
+    (text) => parseModelJson(text, ModelComparisonSchema),
+    "The model returned an invalid comparison"
+  );
+
+  const resolve = (pointId: string) => {
+    const match = pointId.match(/^\s*(\d+)\.(\d+)\s*$/);
+    if (!match) return null;
+    const sourceIndex = Number(match[1]) - 1;
+    const bulletPoint = summaries[sourceIndex]?.bulletPoints[Number(match[2]) - 1];
+    return bulletPoint ? { sourceIndex, reference: bulletPoint.reference } : null;
+  };
+  const distinctSources = (attributions: Array<{ sourceIndex: number }>) =>
+    new Set(attributions.map(a => a.sourceIndex)).size;
+
+  return {
+    overview: result.overview,
+    sources: documents.map((doc, i) => ({ title: doc.title, url: doc.url, summary: summaries[i] })),
+    agreements: result.agreements
+      .map(agreement => ({
+        point: agreement.point,
+        attributions: agreement.pointIds
+          .map(resolve)
+          .filter((a): a is NonNullable<typeof a> => a !== null)
+          .filter((a, i, all) => all.findIndex(other => other.sourceIndex === a.sourceIndex) === i),
+      }))
+      .filter(agreement => agreement.attributions.length >= 2),
+    disagreements: result.disagreements
+      .map(disagreement => ({
+        topic: disagreement.topic,
+        positions: disagreement.positions.flatMap(position => {
+          const attribution = resolve(position.pointId);
+          return attribution ? [{ ...attribution, position: position.position }] : [];
+        }),
+      }))
+      .filter(disagreement => distinctSources(disagreement.positions) >= 2),
+    unique: result.unique.flatMap(item => {
+      const attribution = resolve(item.pointId);
+      return attribution ? [{ ...attribution, point: item.point }] : [];
+    }),
+    options,
+  };
+}
+
+// Replaces each reference with the span of the content it was aligned to, so
+// quotes the model paraphrased still point at (and show) the real text.
+// References that can't be aligned keep the model's wording and no offsets.
+// For transcripts, an aligned reference also gets the time it's spoken at.
+function alignBulletPoint(bulletPoint: BulletPoint, job: SummaryJob, hint?: { start: number; end: number }): BulletPoint {
+  const { start: _start, end: _end, timestamp: _timestamp, ...rest } = bulletPoint;
+  if (!rest.reference) return rest;
+  const chunk = rest.chunkIndex !== undefined ? job.chunks[rest.chunkIndex] : undefined;
+  const span = alignQuote(job.content, rest.reference, hint ?? chunk);
+  if (!span) return rest;
+  const timestamp = timestampAt(job.cues, span.start);
+  return {
+    ...rest,
+    reference: job.content.slice(span.start, span.end),
+    start: span.start,
+    end: span.end,
+    ...(timestamp !== undefined && { timestamp }),
+  };
+}
+
+function alignReferences(summary: Summary, job: SummaryJob): Summary {
+  const bulletPoints = summary.bulletPoints.map(bp => alignBulletPoint(bp, job));
+  console.log('Aligned references:', bulletPoints.filter(bp => bp.start !== undefined).length, 'of', bulletPoints.length);
+  return { ...summary, bulletPoints };
+}
+
+// Records how the summary was produced so it can be shown and re-run later
+function withJobDetails(summary: Summary, job: SummaryJob): Summary {
+  return {
+    ...summary,
+    options: job.options,
+    generatedAt: new Date().toISOString(),
+    ...(job.template && { template: { ...job.template, language: job.language } }),
+  };
+}
+
+function renderJobPrompt(job: SummaryJob, content: string): string {
+  return renderTemplate(job.template!, { content, url: job.url, language: job.language });
+}
+
+async function summarize(
+  job: SummaryJob,
+  onChunkDone?: (completed: number) => void,
+  signal?: AbortSignal
+): Promise<Summary> {
+  const { apiKey, content, chunks, options, template } = job;
+
+  if (template?.outputSchema) {
+    const output = await requestJson(
+      apiKey,
+      schemaSystemPrompt(template.outputSchema),
+      renderJobPrompt(job, content),
+      (text) => parseWithJsonSchema(text, job.validateOutput!),
+      `The model's output did not match the "${template.name}" schema`,
+      signal
+    );
+    return withJobDetails({ summary: '', bulletPoints: [], structuredOutput: output }, job);
+  }
+
+  if (chunks.length === 1) {
+    const summary = template
+      ? await requestSummary(apiKey, templateSystemPrompt(options), renderJobPrompt(job, content), signal)
+      : await requestSummary(apiKey, jsonSystemPrompt(options), `Please summarize this content:\n\n${content}`, signal);
+    return withJobDetails(alignReferences(summary, job), job);
+  }
+
+  console.log(`Content split into ${chunks.length} chunks`);
+  let completed = 0;
+  const partials = await mapWithConcurrency(chunks, MAP_CONCURRENCY, async (chunk) => {
+    const section = `This is section ${chunk.index + 1} of ${chunks.length}.`;
+    const partial = template
+      ? await requestSummary(apiKey, templateSystemPrompt(options), `${section}\n\n${renderJobPrompt(job, chunk.text)}`, signal)
+      : await requestSummary(apiKey, chunkSystemPrompt, `${section} Please summarize it:\n\n${chunk.text}`, signal);
+    onChunkDone?.(++completed);
+    return partial;
+  });
+
+  const merged = await reduceSummaries(apiKey, partials, options, template, signal);
+  return {
+    ...withJobDetails(alignReferences(merged, job), job),
+    chunking: {
+      chunkCount: chunks.length,
+      chunks: chunks.map(({ index, start, end }) => ({ index, start, end })),
+    },
+  };
+}
+
+async function summarizeChapter(job: SummaryJob, chapter: ChapterPlan, signal?: AbortSignal): Promise<ChapterSummary> {
+  const range = `${formatTimestamp(chapter.start)}–${formatTimestamp(chapter.end)}`;
+  // Chapters rarely exceed a chunk; longer ones are summarized from their start
+  const text = job.content.slice(chapter.startOffset, Math.min(chapter.endOffset, chapter.startOffset + CHUNK_SIZE));
+  const heading = chapter.title ? `Chapter "${chapter.title}" (${range})` : `Chapter (${range})`;
+
+  const result = await requestJson(
+    job.apiKey,
+    chapterSystemPrompt(job.options, !chapter.title),
+    `${heading}:\n\n${text}`,
+    (output) => parseModelJson(output, ModelChapterSchema),
+    "The model returned an invalid chapter summary",
+    signal
+  );
+  const hint = { start: chapter.startOffset, end: chapter.endOffset };
+  return {
+    title: chapter.title ?? (result.title || range),
+    start: chapter.start,
+    end: chapter.end,
+    summary: result.summary,
+    bulletPoints: result.bulletPoints.map(bp => alignBulletPoint(bp, job, hint)),
+  };
+}
+
+// Per-chapter summaries of a timed transcript, from the video's chapters or
+// detected topics. Chapters are extra, so failing to make them doesn't fail
+// the summary.
+async function summarizeChapters(job: SummaryJob, signal?: AbortSignal): Promise<Pick<Summary, 'chapters'>> {
+  if (job.template) return {};
+  const plan = planChapters(job.content, job.cues, job.videoChapters);
+  if (!plan) return {};
+
+  console.log(`Summarizing ${plan.chapters.length} chapters from ${plan.source}`);
+  try {
+    const items = await mapWithConcurrency(plan.chapters, MAP_CONCURRENCY, (chapter) => summarizeChapter(job, chapter, signal));
+    return { chapters: { source: plan.source, items } };
+  } catch (error) {
+    if (!signal?.aborted) console.error('Chapter summaries failed:', error);
+    return {};
+  }
+}
+
+// Emits server-sent events: `overview` once, `bullet` per point, `progress`
+// while chunks are being summarized, then `done` with the full summary or `error`.
+function streamSummary(job: SummaryJob): Response {
+  const { chunks } = job;
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (upstream.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        // Chapters are summarized alongside and added to the final summary
+        const chapterSummaries = summarizeChapters(job, upstream.signal);
+        if (chunks.length === 1 && !job.template) {
+          const summary = await streamSingleSummary(job, send, upstream.signal);
+          send('done', { summary: { ...withJobDetails(summary, job), ...(await chapterSummaries) } });
+        } else {
+          // Partial chunk summaries and template output are not streamed, so
+          // report progress and emit the points once they are all available
+          send('progress', { completed: 0, total: chunks.length });
+          const summary = await summarize(
+            job,
+            (completed) => send('progress', { completed, total: chunks.length }),
+            upstream.signal
+          );
+          send('overview', { summary: summary.summary });
+          summary.bulletPoints.forEach((bulletPoint, index) => send('bullet', { index, bulletPoint }));
+          send('done', { summary: { ...summary, ...(await chapterSummaries) } });
+        }
+        console.log('Summary stream completed');
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error("Error in summarize-content stream:", error);
+          send('error', {
+            error: error instanceof Error ? error.message : "An error occurred",
+            status: errorStatus(error),
+          });
+        }
+      } finally {
+        if (!upstream.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      console.log('Summary stream cancelled by client');
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
+
+async function streamSingleSummary(
+  job: SummaryJob,
+  send: (event: string, data: unknown) => void,
+  signal: AbortSignal
+): Promise<Summary> {
+  const response = await callGateway(job.apiKey, {
+    messages: [
+      { role: "system", content: streamSystemPrompt(job.options) },
+      { role: "user", content: `Please summarize this content:\n\n${job.content}` }
+    ],
+    stream: true,
+  }, signal);
+
+  const summary: Summary = { summary: '', bulletPoints: [] };
+  let pendingPoint: string | null = null;
+  // A field is only complete once the next tagged line starts, so values the
+  // model wraps over several lines are still captured in full
+  let field: { tag: string; value: string } | null = null;
+
+  const flushField = () => {
+    if (!field) return;
+    const value = field.value.trim();
+    if (field.tag === 'SUMMARY') {
+      summary.summary = value;
+      send('overview', { summary: value });
+    } else if (field.tag === 'POINT') {
+      pendingPoint = value;
+    } else if (field.tag === 'REFERENCE' && pendingPoint !== null) {
+      const bulletPoint = alignBulletPoint({ point: pendingPoint, reference: value.replace(/^"(.*)"$/, '$1') }, job);
+      summary.bulletPoints.push(bulletPoint);
+      send('bullet', { index: summary.bulletPoints.length - 1, bulletPoint });
+      pendingPoint = null;
+    }
+    field = null;
+  };
+
+  const handleLine = (line: string) => {
+    const match = line.match(/^\s*\**(SUMMARY|POINT|REFERENCE)\**:\s*(.*)$/i);
+    if (match) {
+      flushField();
+      field = { tag: match[1].toUpperCase(), value: match[2] };
+    } else if (field && line.trim()) {
+      field.value += ' ' + line.trim();
+    }
+  };
+
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let sseBuffer = '';
+  let textBuffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    sseBuffer += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = sseBuffer.indexOf('\n')) !== -1) {
+      const sseLine = sseBuffer.slice(0, newline).trim();
+      sseBuffer = sseBuffer.slice(newline + 1);
+      if (!sseLine.startsWith('data:')) continue;
+
+      const payload = sseLine.slice(5).trim();
+      if (payload === '[DONE]') continue;
+
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (!delta) continue;
+        textBuffer += delta;
+        const lines = textBuffer.split('\n');
+        textBuffer = lines.pop() ?? '';
+        lines.forEach(handleLine);
+      } catch {
+        console.log('Skipping unparsable stream payload');
+      }
+    }
+  }
+
+  handleLine(textBuffer);
+  flushField();
+  if (pendingPoint !== null) {
+    const bulletPoint = { point: pendingPoint, reference: '' };
+    summary.bulletPoints.push(bulletPoint);
+    send('bullet', { index: summary.bulletPoints.length - 1, bulletPoint });
+  }
+
+  if (!summary.summary && summary.bulletPoints.length === 0) {
+    throw new OutputValidationError("The model returned an invalid summary", [
+      'Response did not contain any SUMMARY or POINT lines',
+    ]);
+  }
+  return summary;
+}
+
+async function callGateway(apiKey: string, options: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "google/gemini-2.5-flash",
+      ...options,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new GatewayError("Rate limit exceeded. Please try again later.", 429);
+    }
+    if (response.status === 402) {
+      throw new GatewayError("Payment required. Please add credits to your workspace.", 402);
+    }
+    const errorText = await response.text();
+    console.error("AI gateway error:", response.status, errorText);
+    throw new Error("Failed to generate summary");
+  }
+
+  return response;
+}
+
+// Asks for JSON and checks it with `parse`. Output that is still invalid after
+// local repair is sent back to the model with the problems listed.
+async function requestJson<T>(
+  apiKey: string,
+  system: string,
+  user: string,
+  parse: (text: string) => ParseResult<T>,
+  failureMessage: string,
+  signal?: AbortSignal
+): Promise<T> {
+  const messages = [
+    { role: "system", content: system },
+    { role: "user", content: user }
+  ];
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await callGateway(apiKey, {
+      messages,
+      response_format: { type: "json_object" }
+    }, signal);
+
+    const data = await response.json();
+    const text: string = data.choices?.[0]?.message?.content ?? '';
+    const result = parse(text);
+    if (result.success) return result.data;
+
+    console.log(`Invalid model output (attempt ${attempt + 1}):`, result.issues);
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new OutputValidationError(failureMessage, result.issues);
+    }
+    messages.push(
+      { role: "assistant", content: text },
+      { role: "user", content: `Your response was invalid:\n- ${result.issues.join('\n- ')}\nReply again with only the corrected JSON.` }
+    );
+  }
+}
+
+async function requestSummary(apiKey: string, system: string, user: string, signal?: AbortSignal): Promise<Summary> {
+  return await requestJson(
+    apiKey,
+    system,
+    user,
+    (text) => parseModelJson(text, ModelSummarySchema),
+    "The model returned an invalid summary",
+    signal
+  );
+}
+
+function parseWithJsonSchema(text: string, validate: ValidateFunction): ParseResult<unknown> {
+  let value: unknown;
+  try {
+    value = repairJson(text);
+  } catch (error) {
+    return { success: false, issues: [`Response is not valid JSON (${error instanceof Error ? error.message : error})`] };
+  }
+  if (validate(value)) return { success: true, data: value };
+  return {
+    success: false,
+    issues: (validate.errors ?? []).map(e => `${e.instancePath || '(root)'} ${e.message}`),
+  };
+}
+
+// Splits content into overlapping windows, preferring paragraph, sentence and
+// word boundaries near the end of each window so quotes are not cut in half.
+function splitIntoChunks(content: string): Chunk[] {
+  if (content.length <= CHUNK_SIZE) {
+    return [{ index: 0, start: 0, end: content.length, text: content }];
+  }
+
+  const chunks: Chunk[] = [];
+  let start = 0;
+
+  while (start < content.length) {
+    let end = Math.min(start + CHUNK_SIZE, content.length);
+
+    if (end < content.length) {
+      const searchFrom = start + Math.floor(CHUNK_SIZE * 0.8);
+      for (const separator of ['\n\n', '. ', '\n', ' ']) {
+        const breakAt = content.lastIndexOf(separator, end - separator.length);
+        if (breakAt >= searchFrom) {
+          end = breakAt + separator.length;
+          break;
+        }
+      }
+    }
+
+    chunks.push({ index: chunks.length, start, end, text: content.slice(start, end) });
+    if (end >= content.length) break;
+
+    // Step back by the overlap, then forward to the next word boundary
+    let nextStart = Math.max(end - CHUNK_OVERLAP, start + 1);
+    const wordBreak = content.indexOf(' ', nextStart);
+    if (wordBreak !== -1 && wordBreak < end) nextStart = wordBreak + 1;
+    start = nextStart;
+  }
+
+  return chunks;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const current = next++;
+      results[current] = await fn(items[current]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 3)
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function dedupeBulletPoints(bulletPoints: BulletPoint[]): BulletPoint[] {
+  const kept: Array<{ bullet: BulletPoint; tokens: Set<string> }> = [];
+
+  for (const bullet of bulletPoints) {
+    const tokens = tokenize(bullet.point);
+    const isDuplicate = kept.some(k =>
+      similarity(k.tokens, tokens) >= DUPLICATE_THRESHOLD ||
+      (bullet.reference && k.bullet.reference === bullet.reference)
+    );
+    if (!isDuplicate) kept.push({ bullet, tokens });
+  }
+
+  return kept.map(k => k.bullet);
+}
+
+async function reduceSummaries(
+  apiKey: string,
+  partials: Summary[],
+  options: SummaryOptions,
+  template: PromptTemplate | undefined,
+  signal?: AbortSignal
+): Promise<Summary> {
+  // Tag every candidate with the chunk it came from so its reference can be
+  // located in the original content later on
+  const candidates = dedupeBulletPoints(
+    partials.flatMap((partial, chunkIndex) =>
+      (partial.bulletPoints || []).map(bp => ({ ...bp, chunkIndex }))
+    )
+  );
+
+  const overviews = partials
+    .map((partial, i) => `Section ${i + 1}: ${partial.summary}`)
+    .join('\n');
+  const candidateList = candidates
+    .map((bp, id) => `[${id}] (section ${(bp.chunkIndex ?? 0) + 1}) ${bp.point}`)
+    .join('\n');
+
+  const reduced = await requestJson(
+    apiKey,
+    reduceSystemPrompt(options),
+    [
+      // Without the recipe the reducer would keep "important" points and drop
+      // the ones the template actually asked for
+      template && `The candidate points were extracted with these instructions, keep every point that satisfies them:\n${template.prompt.replace(TEMPLATE_VARIABLE, '').trim()}`,
+      `Section overviews:\n${overviews}`,
+      `Candidate points:\n${candidateList}`,
+    ].filter(Boolean).join('\n\n'),
+    (text) => parseModelJson(text, ReducedSummarySchema),
+    "The model returned an invalid merged summary",
+    signal
+  );
+
+  const bulletPoints = dedupeBulletPoints(
+    reduced.bulletPoints
+      .filter(bp => candidates[bp.id])
+      .map(bp => ({ ...candidates[bp.id], point: bp.point || candidates[bp.id].point }))
+  );
+
+  if (bulletPoints.length === 0) {
+    console.log('Reduce step returned no usable points, falling back to candidates');
+    return {
+      summary: reduced.summary || partials.map(p => p.summary).join(' '),
+      bulletPoints: candidates.slice(0, options.bulletCount ?? 8),
+    };
+  }
+
+  return { summary: reduced.summary, bulletPoints };
+}
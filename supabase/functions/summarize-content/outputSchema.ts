@@ -0,0 +1,38 @@
+import { Ajv, type ValidateFunction } from "ajv";
+import secureMetaSchema from "ajv/lib/refs/json-schema-secure.json" with { type: "json" };
+
+// Template output schemas come from the caller, and Ajv compiles a schema into
+// code it runs against the model's output. Before compiling, a schema is
+// capped in size and nesting and checked against Ajv's secure meta-schema,
+// which rejects keywords that are slow on large input, such as a `pattern`
+// without a `maxLength`.
+
+const MAX_OUTPUT_SCHEMA_LENGTH = 10000;
+// JSON nesting, about ten levels of nested objects in the output
+const MAX_OUTPUT_SCHEMA_DEPTH = 20;
+
+// The meta-schema is trusted, so it is compiled once. It leaves out `type`
+// where strictTypes expects one.
+const metaAjv = new Ajv({ strictTypes: false });
+const isSchemaSecure = metaAjv.compile(secureMetaSchema);
+
+const nestingDepth = (value: unknown): number =>
+  value && typeof value === 'object'
+    ? 1 + Math.max(0, ...Object.values(value).map(nestingDepth))
+    : 0;
+
+// Throws with the reason when the schema is unsafe or invalid
+export function compileOutputSchema(schema: Record<string, unknown>): ValidateFunction {
+  if (JSON.stringify(schema).length > MAX_OUTPUT_SCHEMA_LENGTH) {
+    throw new Error(`Schema is longer than ${MAX_OUTPUT_SCHEMA_LENGTH} characters`);
+  }
+  if (nestingDepth(schema) > MAX_OUTPUT_SCHEMA_DEPTH) {
+    throw new Error(`Schema is nested more than ${MAX_OUTPUT_SCHEMA_DEPTH} levels deep`);
+  }
+  if (!isSchemaSecure(schema)) {
+    throw new Error(`Schema could be slow to validate: ${metaAjv.errorsText(isSchemaSecure.errors, { dataVar: 'schema' })}`);
+  }
+  // A new instance per schema, as Ajv caches every schema it compiles for the
+  // life of the instance
+  return new Ajv({ allErrors: true }).compile(schema);
+}
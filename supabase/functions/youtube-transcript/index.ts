@@ -0,0 +1,130 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { extractChapters } from "../_shared/videoChapters.ts";
+import { parseYouTubeUrl } from "../_shared/youtubeUrls.ts";
+import { fetchPlaylist } from "./playlist.ts";
+import { STRATEGIES, createContext, listTracks, runStrategy, type CaptionResult, type CaptionTrack } from "./strategies.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// A YouTube video's captions as { text, timeline }, with its chapters, the
+// caption languages it has, and diagnostics saying how each strategy fared.
+// With listOnly, just the caption languages, for picking one before summarizing.
+// Playlist and channel links return { playlist } with the videos to summarize.
+
+interface StrategyDiagnostic {
+  strategy: string;
+  outcome: 'success' | 'no-captions' | 'error';
+  durationMs: number;
+  error?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { url, lang = 'en', autoGenerated, listOnly } = await req.json();
+    console.log('Fetching YouTube transcript for URL:', url, 'Preferred language:', lang, listOnly ? '(tracks only)' : '');
+
+    const link = typeof url === 'string' ? parseYouTubeUrl(url) : null;
+    if (!link) {
+      return json({ error: 'Invalid YouTube URL', code: 'INVALID_URL' }, 400);
+    }
+    if (link.kind !== 'video') {
+      const playlist = await fetchPlaylist(link);
+      if (playlist.videos.length === 0) {
+        return json({ error: 'No videos could be listed for this playlist or channel.', code: 'EMPTY_PLAYLIST' }, 404);
+      }
+      return json({ playlist });
+    }
+    const { videoId } = link;
+    console.log('Video ID:', videoId);
+
+    const context = createContext(videoId, lang, typeof autoGenerated === 'boolean' ? autoGenerated : undefined);
+    const diagnostics: StrategyDiagnostic[] = [];
+
+    if (listOnly) {
+      for (const candidate of STRATEGIES.filter(s => s.listTracks)) {
+        const tracks = await attempt(diagnostics, candidate.name, () => listTracks(candidate, context), t => t.length > 0);
+        if (tracks?.length) break;
+      }
+      return json({ availableLanguages: context.tracks.map(toLanguage), diagnostics });
+    }
+
+    // Chapter markers come from the watch page, fetched alongside the captions
+    const watchPage = context.watchPage();
+
+    let result: CaptionResult | null = null;
+    let strategy: string | null = null;
+    for (const candidate of STRATEGIES) {
+      result = await attempt(diagnostics, candidate.name, () => runStrategy(candidate, context), r => r !== null);
+      if (result) {
+        strategy = candidate.name;
+        break;
+      }
+    }
+
+    if (!result) {
+      console.log('No strategy returned captions:', JSON.stringify(diagnostics));
+      return json({
+        error: 'Could not fetch the video transcript. The video may not have captions available or they may be disabled.',
+        code: 'NO_TRANSCRIPT',
+        diagnostics,
+      }, 404);
+    }
+
+    const { track } = result;
+    const tracks = context.tracks.length > 0 ? context.tracks : [track];
+    const chapters = extractChapters(await watchPage, context.description);
+    console.log('Transcript extracted via', strategy, 'text length:', result.text.length, 'timeline items:', result.timeline.length, 'chapters:', chapters.length);
+
+    return json({
+      text: result.text,
+      timeline: result.timeline,
+      chapters,
+      languageCode: track.languageCode,
+      languageName: track.languageName,
+      isAutoGenerated: track.isAutoGenerated,
+      availableLanguages: tracks.map(toLanguage),
+      strategy,
+      diagnostics,
+    });
+
+  } catch (error) {
+    console.error('Error fetching YouTube transcript:', error);
+    return json({
+      error: error instanceof Error ? error.message : 'Failed to fetch transcript',
+      code: 'UPSTREAM_ERROR',
+    }, 500);
+  }
+});
+
+// Runs one strategy step, recording how it went
+async function attempt<T>(
+  diagnostics: StrategyDiagnostic[],
+  strategy: string,
+  step: () => Promise<T>,
+  succeeded: (result: T) => boolean
+): Promise<T | null> {
+  const started = Date.now();
+  try {
+    const result = await step();
+    diagnostics.push({ strategy, outcome: succeeded(result) ? 'success' : 'no-captions', durationMs: Date.now() - started });
+    return result;
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    console.log(`Strategy ${strategy} failed:`, error);
+    diagnostics.push({ strategy, outcome: 'error', durationMs: Date.now() - started, error });
+    return null;
+  }
+}
+
+const toLanguage = (track: CaptionTrack) => ({ code: track.languageCode, name: track.languageName, isAuto: track.isAutoGenerated });
+
+function json(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
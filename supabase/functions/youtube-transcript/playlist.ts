@@ -0,0 +1,87 @@
+import { uploadsPlaylistId, youTubeVideoUrl, type YouTubeLink } from "../_shared/youtubeUrls.ts";
+import { BROWSER_HEADERS } from "./strategies.ts";
+
+// The videos of a playlist, or of a channel's uploads, read from the
+// ytInitialData embedded in the playlist page. The page lists the first 100
+// videos; more would need the continuation API, which digests don't need.
+
+export interface PlaylistVideo {
+  videoId: string;
+  title: string;
+  url: string;
+}
+
+export interface Playlist {
+  playlistId: string;
+  title: string;
+  url: string;
+  videos: PlaylistVideo[];
+  // Videos listed before the limit was applied
+  totalVideos: number;
+}
+
+export const MAX_PLAYLIST_VIDEOS = 25;
+
+async function fetchPage(url: string): Promise<string> {
+  const response = await fetch(url, { headers: BROWSER_HEADERS });
+  if (!response.ok) throw new Error(`YouTube returned ${response.status} for ${url}`);
+  return await response.text();
+}
+
+function initialData(html: string): unknown {
+  const match = html.match(/ytInitialData\s*=\s*(\{[\s\S]+?\})\s*;\s*<\/script>/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+type TextRuns = { simpleText?: string; runs?: Array<{ text?: string }> };
+
+const textOf = (value: TextRuns | undefined) =>
+  value?.simpleText ?? value?.runs?.map(run => run.text ?? '').join('') ?? '';
+
+// Every playlistVideoRenderer in the page data, in order
+function collectVideos(node: unknown, videos: PlaylistVideo[] = []): PlaylistVideo[] {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectVideos(child, videos));
+  } else if (node && typeof node === 'object') {
+    const renderer = (node as { playlistVideoRenderer?: { videoId?: string; title?: TextRuns } }).playlistVideoRenderer;
+    if (renderer?.videoId) {
+      if (!videos.some(video => video.videoId === renderer.videoId)) {
+        videos.push({ videoId: renderer.videoId, title: textOf(renderer.title) || renderer.videoId, url: youTubeVideoUrl(renderer.videoId) });
+      }
+    } else {
+      Object.values(node).forEach(child => collectVideos(child, videos));
+    }
+  }
+  return videos;
+}
+
+async function resolveChannelId(path: string): Promise<string> {
+  const html = await fetchPage(`https://www.youtube.com${path}`);
+  const id = html.match(/"externalId":"(UC[\w-]{22})"/)?.[1]
+    ?? html.match(/<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[\w-]{22})"/)?.[1];
+  if (!id) throw new Error('Could not find the channel on YouTube');
+  return id;
+}
+
+export async function fetchPlaylist(link: Exclude<YouTubeLink, { kind: 'video' }>): Promise<Playlist> {
+  const playlistId = link.kind === 'playlist'
+    ? link.playlistId
+    : uploadsPlaylistId(link.channelId ?? await resolveChannelId(link.path));
+  const url = `https://www.youtube.com/playlist?list=${playlistId}`;
+  console.log('Fetching playlist:', url);
+
+  const html = await fetchPage(url);
+  const data = initialData(html) as { metadata?: { playlistMetadataRenderer?: { title?: string } } } | null;
+  const videos = collectVideos(data);
+  const title = data?.metadata?.playlistMetadataRenderer?.title
+    ?? html.match(/<meta property="og:title" content="([^"]*)"/)?.[1]
+    ?? 'YouTube playlist';
+  console.log(`Playlist "${title}" lists ${videos.length} videos`);
+
+  return { playlistId, title, url, videos: videos.slice(0, MAX_PLAYLIST_VIDEOS), totalVideos: videos.length };
+}
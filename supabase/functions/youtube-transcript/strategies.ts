@@ -0,0 +1,291 @@
+import { type Transcript, parseYouTubeCaptions } from "../_shared/transcriptFormats.ts";
+
+// The ways of getting a video's captions, tried in order until one returns a
+// transcript. Which of them work changes with YouTube's rollouts, so the
+// pipeline keeps going past failures and reports what each one did.
+
+export interface CaptionTrack {
+  languageCode: string;
+  languageName: string;
+  isAutoGenerated: boolean;
+  // Signed URL from the player API, or one built for the timedtext endpoint
+  url: string;
+}
+
+export interface CaptionResult extends Transcript {
+  track: CaptionTrack;
+}
+
+export interface StrategyContext {
+  videoId: string;
+  // Preferred caption language, e.g. "en"
+  lang: string;
+  // Set when the user picked an auto-generated or a manual track
+  autoGenerated?: boolean;
+  // Every track a strategy listed, offered to the client as alternatives
+  tracks: CaptionTrack[];
+  // Set by the player API, for reading chapter markers
+  description: string | null;
+  // The watch page, fetched once and shared by strategies and chapter lookup
+  watchPage(): Promise<string | null>;
+}
+
+// Strategies either list the video's tracks, and the best one is fetched, or
+// fetch captions directly. They return nothing when the video has no captions
+// this way and throw when the strategy itself failed.
+export interface CaptionStrategy {
+  name: string;
+  listTracks?(context: StrategyContext): Promise<CaptionTrack[]>;
+  fetchCaptions?(context: StrategyContext): Promise<CaptionResult | null>;
+}
+
+const CONSENT_COOKIE = 'CONSENT=YES+cb.20210328-17-p0.en+FX+123; SOCS=CAI; PREF=hl=en';
+
+export const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,application/json;q=0.8,*/*;q=0.7',
+  'Origin': 'https://www.youtube.com',
+  'Referer': 'https://www.youtube.com/',
+  // Skips the EU consent page, which has no video data
+  'Cookie': CONSENT_COOKIE,
+};
+
+// Formats asked for, in order, until one parses to a usable transcript
+const CAPTION_FORMATS = ['srv3', 'json3', 'vtt'];
+const MIN_TRANSCRIPT_LENGTH = 50;
+
+const LANGUAGE_NAMES = new Intl.DisplayNames(['en'], { type: 'language' });
+
+export function languageName(code: string): string {
+  try {
+    return LANGUAGE_NAMES.of(code) ?? code;
+  } catch {
+    return code.toUpperCase();
+  }
+}
+
+export function createContext(videoId: string, lang: string, autoGenerated?: boolean): StrategyContext {
+  let watchPage: Promise<string | null> | null = null;
+  return {
+    videoId,
+    lang,
+    autoGenerated,
+    tracks: [],
+    description: null,
+    watchPage: () => watchPage ??= fetchWatchPage(videoId),
+  };
+}
+
+async function fetchWatchPage(videoId: string): Promise<string | null> {
+  try {
+    const response = await fetch(`https://www.youtube.com/watch?v=${videoId}`, { headers: BROWSER_HEADERS });
+    if (!response.ok) {
+      console.log('Failed to fetch watch page:', response.status);
+      return null;
+    }
+    return await response.text();
+  } catch (e) {
+    console.log('Failed to fetch watch page:', e);
+    return null;
+  }
+}
+
+// Manual captions in the preferred language, then auto-generated ones (or the
+// other way round when auto-generated ones were asked for), then the same for
+// English, then anything
+function selectTrack(tracks: CaptionTrack[], preferred: string, autoGenerated = false): CaptionTrack | null {
+  const base = (code: string) => code.toLowerCase().split(/[-_]/)[0];
+  const matchers: Array<(track: CaptionTrack) => boolean> = [
+    track => track.languageCode === preferred,
+    track => base(track.languageCode) === base(preferred),
+    track => base(track.languageCode) === 'en',
+    () => true,
+  ];
+  for (const matches of matchers) {
+    const found = tracks.find(track => matches(track) && track.isAutoGenerated === autoGenerated)
+      ?? tracks.find(track => matches(track));
+    if (found) return found;
+  }
+  return null;
+}
+
+async function fetchTrack(track: CaptionTrack): Promise<Transcript | null> {
+  for (const format of CAPTION_FORMATS) {
+    const url = new URL(track.url);
+    url.searchParams.set('fmt', format);
+    try {
+      const response = await fetch(url, { headers: BROWSER_HEADERS });
+      if (!response.ok) {
+        console.log(`Caption fetch (${format}) failed:`, response.status);
+        continue;
+      }
+      const transcript = parseYouTubeCaptions(await response.text());
+      if (transcript.text.length > MIN_TRANSCRIPT_LENGTH) return transcript;
+    } catch (e) {
+      console.log(`Caption fetch (${format}) failed:`, e);
+    }
+  }
+  return null;
+}
+
+export async function listTracks(strategy: CaptionStrategy, context: StrategyContext): Promise<CaptionTrack[]> {
+  const tracks = await strategy.listTracks?.(context) ?? [];
+  for (const track of tracks) {
+    const known = context.tracks.some(t => t.languageCode === track.languageCode && t.isAutoGenerated === track.isAutoGenerated);
+    if (!known) context.tracks.push(track);
+  }
+  return tracks;
+}
+
+// Listing strategies fetch the track that best fits the preferred language
+export async function runStrategy(strategy: CaptionStrategy, context: StrategyContext): Promise<CaptionResult | null> {
+  if (strategy.fetchCaptions) return strategy.fetchCaptions(context);
+
+  const tracks = await listTracks(strategy, context);
+  const track = selectTrack(tracks, context.lang, context.autoGenerated);
+  if (!track) return null;
+  console.log('Fetching caption track:', track.languageCode, track.isAutoGenerated ? '(auto-generated)' : '');
+  const transcript = await fetchTrack(track);
+  if (!transcript) {
+    throw new Error(`${tracks.length} caption track(s) listed, but the ${track.languageCode} track returned no text`);
+  }
+  return { ...transcript, track };
+}
+
+function timedTextUrl(videoId: string, languageCode: string, isAutoGenerated: boolean, name?: string): string {
+  const params = new URLSearchParams({ v: videoId, lang: languageCode });
+  if (isAutoGenerated) params.set('kind', 'asr');
+  // Manual tracks with a title are only served when it's given
+  if (name) params.set('name', name);
+  return `https://www.youtube.com/api/timedtext?${params.toString()}`;
+}
+
+interface PlayerClient {
+  clientName: string;
+  clientVersion: string;
+  // Numeric id sent in the X-Youtube-Client-Name header
+  clientId: string;
+  userAgent: string;
+  extraContext?: Record<string, unknown>;
+}
+
+interface PlayerCaptionTrack {
+  baseUrl?: string;
+  languageCode?: string;
+  kind?: string;
+}
+
+// The innertube player API, as used by YouTube's own apps. Different clients
+// get captions for different videos.
+function playerStrategy(name: string, client: PlayerClient): CaptionStrategy {
+  return {
+    name,
+    async listTracks(context) {
+      const html = await context.watchPage();
+      const apiKey = html?.match(/"INNERTUBE_API_KEY":"([^"]+)"/)?.[1];
+      if (!apiKey) throw new Error('No INNERTUBE_API_KEY on the watch page');
+
+      const response = await fetch(`https://www.youtube.com/youtubei/v1/player?key=${apiKey}`, {
+        method: 'POST',
+        headers: {
+          ...BROWSER_HEADERS,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'User-Agent': client.userAgent,
+          'X-Youtube-Client-Name': client.clientId,
+          'X-Youtube-Client-Version': client.clientVersion,
+        },
+        body: JSON.stringify({
+          context: {
+            client: { hl: 'en', gl: 'US', clientName: client.clientName, clientVersion: client.clientVersion, ...client.extraContext },
+          },
+          videoId: context.videoId,
+          params: 'CgIQBg==',
+          playbackContext: { contentPlaybackContext: { html5Preference: 'HTML5_PREF_WANTS' } },
+          racyCheckOk: true,
+          contentCheckOk: true,
+        }),
+      });
+      if (!response.ok) throw new Error(`Player API returned ${response.status}`);
+
+      const data = await response.json();
+      context.description ??= data?.videoDetails?.shortDescription ?? null;
+      const captionTracks: PlayerCaptionTrack[] = data?.captions?.playerCaptionsTracklistRenderer?.captionTracks ?? [];
+      return captionTracks
+        .filter(track => track.baseUrl && track.languageCode)
+        .map(track => ({
+          languageCode: track.languageCode!,
+          languageName: languageName(track.languageCode!),
+          isAutoGenerated: track.kind === 'asr',
+          url: track.baseUrl!,
+        }));
+    },
+  };
+}
+
+// The timedtext track list: <track lang_code="en" name="" kind="asr" lang_translated="English" />
+function parseTrackList(xml: string, videoId: string): CaptionTrack[] {
+  const tracks: CaptionTrack[] = [];
+  for (const match of xml.matchAll(/<track\s+([^>]+?)\s*\/?>/g)) {
+    const attrs = Object.fromEntries([...match[1].matchAll(/(\w+)="([^"]*)"/g)].map(a => [a[1], a[2]]));
+    const languageCode = attrs.lang_code || attrs.lc;
+    if (!languageCode) continue;
+    const isAutoGenerated = attrs.kind === 'asr';
+    tracks.push({
+      languageCode,
+      languageName: attrs.lang_translated || attrs.lang_original || languageName(languageCode),
+      isAutoGenerated,
+      url: timedTextUrl(videoId, languageCode, isAutoGenerated, attrs.name),
+    });
+  }
+  return tracks;
+}
+
+const timedTextListStrategy: CaptionStrategy = {
+  name: 'timedtext-list',
+  async listTracks(context) {
+    const response = await fetch(`https://www.youtube.com/api/timedtext?type=list&v=${context.videoId}`, { headers: BROWSER_HEADERS });
+    if (!response.ok) throw new Error(`Track list returned ${response.status}`);
+    return parseTrackList(await response.text(), context.videoId);
+  },
+};
+
+// Last resort: guesses timedtext URLs for the preferred language and English,
+// which still works for some videos whose track list is empty
+const timedTextGuessStrategy: CaptionStrategy = {
+  name: 'timedtext-guess',
+  async fetchCaptions(context) {
+    for (const languageCode of new Set([context.lang, 'en'])) {
+      for (const isAutoGenerated of context.autoGenerated ? [true, false] : [false, true]) {
+        const track = {
+          languageCode,
+          languageName: languageName(languageCode),
+          isAutoGenerated,
+          url: timedTextUrl(context.videoId, languageCode, isAutoGenerated),
+        };
+        const transcript = await fetchTrack(track);
+        if (transcript) return { ...transcript, track };
+      }
+    }
+    return null;
+  },
+};
+
+export const STRATEGIES: CaptionStrategy[] = [
+  playerStrategy('player-android', {
+    clientName: 'ANDROID',
+    clientVersion: '19.09.37',
+    clientId: '3',
+    userAgent: 'com.google.android.youtube/19.09.37 (Linux; U; Android 11) gzip',
+    extraContext: { androidSdkVersion: 30 },
+  }),
+  playerStrategy('player-tv', {
+    clientName: 'TVHTML5',
+    clientVersion: '7.20220319',
+    clientId: '7',
+    userAgent: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/70.0.3538.110 Safari/537.36',
+  }),
+  timedTextListStrategy,
+  timedTextGuessStrategy,
+];
@@ -0,0 +1,52 @@
+-- Opt-in summary history. Rows belong to the (anonymous) auth user that
+-- created them and are only visible to that user.
+create table public.summaries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text not null,
+  source_type text not null check (source_type in ('url', 'text', 'file')),
+  source_url text,
+  source_name text,
+  content_hash text not null,
+  original_content text,
+  summary jsonb not null,
+  translations jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index summaries_user_id_created_at_idx on public.summaries (user_id, created_at desc);
+
+alter table public.summaries enable row level security;
+
+create policy "Users can view their own summaries"
+  on public.summaries for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own summaries"
+  on public.summaries for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own summaries"
+  on public.summaries for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own summaries"
+  on public.summaries for delete
+  using (auth.uid() = user_id);
+
+create or replace function public.update_updated_at_column()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger update_summaries_updated_at
+  before update on public.summaries
+  for each row
+  execute function public.update_updated_at_column();
@@ -0,0 +1,24 @@
+-- Read-only summary links published from the app. The id is an unguessable
+-- token generated by the share-summary edge function, which is also the only
+-- way to read or write rows: there are no RLS policies, so anonymous and
+-- signed-in clients can't list or fetch shares directly, and password and
+-- expiry checks can't be bypassed.
+create table public.shared_summaries (
+  id text primary key,
+  title text not null,
+  source_url text,
+  summary jsonb not null,
+  translated_summary jsonb,
+  translation_language text,
+  -- Only stored when the sharer explicitly opts in
+  original_content text,
+  -- PBKDF2-SHA256, see supabase/functions/share-summary
+  password_hash text,
+  password_salt text,
+  expires_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index shared_summaries_expires_at_idx on public.shared_summaries (expires_at);
+
+alter table public.shared_summaries enable row level security;
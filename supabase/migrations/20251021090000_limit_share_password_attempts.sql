@@ -0,0 +1,43 @@
+-- Password guesses on a shared summary are limited per share: each one is
+-- claimed before share-summary derives the hash, so a share that has used up
+-- its attempts costs no PBKDF2 work until the window has passed.
+alter table public.shared_summaries
+  add column password_attempts integer not null default 0,
+  add column password_window_start timestamptz;
+
+-- Counts one guess against the share and returns false when the share has
+-- already had max_attempts guesses in the current window. The single UPDATE
+-- takes the row lock, so concurrent guesses can't all slip under the limit.
+create function public.claim_share_password_attempt(share_id text, max_attempts integer, window_seconds integer)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  window_open boolean;
+begin
+  update public.shared_summaries
+  set
+    password_attempts = case
+      when password_window_start is null or password_window_start <= now() - make_interval(secs => window_seconds) then 1
+      else password_attempts + 1
+    end,
+    password_window_start = case
+      when password_window_start is null or password_window_start <= now() - make_interval(secs => window_seconds) then now()
+      else password_window_start
+    end
+  where id = share_id
+    and (
+      password_window_start is null
+      or password_window_start <= now() - make_interval(secs => window_seconds)
+      or password_attempts < max_attempts
+    )
+  returning true into window_open;
+
+  return coalesce(window_open, false);
+end;
+$$;
+
+-- Only the edge function, with the service role, may call it
+revoke execute on function public.claim_share_password_attempt(text, integer, integer) from public, anon, authenticated;